@@ -2,7 +2,7 @@ import { z } from "zod";
 import { Locator } from "playwright";
 import { ActionContext, ActionOutput, AgentActionDefinition } from "@/types";
 import { sleep } from "@/utils";
-import { getLocator, getLocatorString } from "./utils";
+import { getActionTimeout, getLocator, getLocatorString } from "./utils";
 
 const ClickElementAction = z
   .object({
@@ -40,19 +40,20 @@ export const ClickElementActionDefinition: AgentActionDefinition = {
     }
 
     await locator.scrollIntoViewIfNeeded({
-      timeout: CLICK_CHECK_TIMEOUT_PERIOD,
+      timeout: getActionTimeout(ctx, CLICK_CHECK_TIMEOUT_PERIOD),
     });
 
+    const checkTimeout = getActionTimeout(ctx, CLICK_CHECK_TIMEOUT_PERIOD);
     await Promise.all([
       locator.waitFor({
         state: "visible",
-        timeout: CLICK_CHECK_TIMEOUT_PERIOD,
+        timeout: checkTimeout,
       }),
-      waitForElementToBeEnabled(locator, CLICK_CHECK_TIMEOUT_PERIOD),
-      waitForElementToBeStable(locator, CLICK_CHECK_TIMEOUT_PERIOD),
+      waitForElementToBeEnabled(locator, checkTimeout),
+      waitForElementToBeStable(locator, checkTimeout),
     ]);
 
-    await locator.click({ force: true });
+    await locator.click({ force: true, timeout: getActionTimeout(ctx) });
     return { success: true, message: `Clicked element with index ${index}` };
   },
 
@@ -0,0 +1,51 @@
+import { z } from "zod";
+import { ActionContext, ActionOutput, AgentActionDefinition } from "@/types";
+
+export const CloseTabAction = z
+  .object({
+    index: z
+      .number()
+      .describe("The index of the tab to close, as listed in Open Tabs."),
+  })
+  .describe(
+    "Close an open tab. If the current tab is closed, the most recently opened tab becomes the current one",
+  );
+
+export type CloseTabActionType = z.infer<typeof CloseTabAction>;
+
+export const CloseTabActionDefinition: AgentActionDefinition = {
+  type: "closeTab" as const,
+  actionParams: CloseTabAction,
+
+  run: async (
+    ctx: ActionContext,
+    action: CloseTabActionType,
+  ): Promise<ActionOutput> => {
+    if (!ctx.tabs) {
+      return { success: false, message: "Tabs are not available" };
+    }
+    const page = await ctx.tabs.closeTab(action.index);
+    return {
+      success: true,
+      message: `Closed tab ${action.index}, current tab is ${ctx.tabs.currentIndex} (${page.url()})`,
+    };
+  },
+
+  generateCode: async (ctx: ActionContext, action: CloseTabActionType) => {
+    return `
+      {
+        const wasCurrentTab = ctx.page.context().pages()[${action.index}] === ctx.page;
+        await ctx.page.context().pages()[${action.index}].close();
+        if (wasCurrentTab) {
+          const pages = await agent.getPages();
+          ctx.page = pages[pages.length - 1];
+        }
+        await ctx.page.bringToFront();
+      }
+    `;
+  },
+
+  pprintAction: function (params: CloseTabActionType): string {
+    return `Close tab ${params.index}`;
+  },
+};
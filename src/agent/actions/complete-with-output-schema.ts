@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { ActionContext, ActionOutput, AgentActionDefinition } from "@/types";
+import { resolveVariables } from "@/utils/secrets";
 
 export const generateCompleteActionWithOutputDefinition = (
   outputSchema: z.AnyZodObject,
@@ -74,14 +75,8 @@ export const generateCompleteActionWithOutputDefinition = (
       params: CompeleteActionWithOutputSchema,
       variables?: Record<string, any>,
     ) => {
-      let outputSchemaString = JSON.stringify(params.outputSchema, null, 2);
-      for (const variable of Object.values(variables ?? {})) {
-        outputSchemaString = outputSchemaString.replaceAll(
-          `<<${variable.key}>>`,
-          variable.value,
-        );
-      }
-      return outputSchemaString;
+      const outputSchemaString = JSON.stringify(params.outputSchema, null, 2);
+      return resolveVariables(outputSchemaString, variables ?? {});
     },
   };
 };
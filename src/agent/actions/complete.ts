@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { ActionContext, ActionOutput, AgentActionDefinition } from "@/types";
+import { resolveVariables } from "@/utils/secrets";
 
 export const CompleteAction = z
   .object({
@@ -48,13 +49,8 @@ export const CompleteActionDefinition: AgentActionDefinition = {
     params: CompleteActionType,
     variables?: Record<string, any>,
   ) => {
-    let text = params.text ?? "No response text found";
-    if (variables) {
-      for (const variable of Object.values(variables)) {
-        text = text.replaceAll(`<<${variable.key}>>`, variable.value);
-      }
-    }
-    return text;
+    const text = params.text ?? "No response text found";
+    return variables ? resolveVariables(text, variables) : text;
   },
 
   pprintAction: function (params: CompleteActionType): string {
@@ -4,6 +4,10 @@ import { parseMarkdown } from "@/utils/html-to-markdown";
 import fs from "fs";
 import { VariableExtractionOutput } from "@/types/agent/types";
 import { HyperVariable } from "@/types/agent/types";
+import { invokeStructuredOutput } from "../llms/structured-output";
+import { routeModel } from "../llms/router";
+import { truncateToTokenLimit } from "@/utils/tokenizer";
+import { redactSecrets, resolveVariables } from "@/utils/secrets";
 
 export const ExtractAction = z
   .object({
@@ -37,6 +41,16 @@ export const ExtractAction = z
 
 export type ExtractActionType = z.infer<typeof ExtractAction>;
 
+// The page content gets a share of the token limit, the rest is left to the prompt, the screenshot and the answer
+const CONTENT_TOKEN_SHARE = 0.3;
+const MAX_CONTENT_TOKENS = 20_000;
+
+/**
+ * Number of tokens of page content given to the extraction, both when the agent runs and in generated scripts
+ */
+const getContentTokenBudget = (tokenLimit: number): number =>
+  Math.min(MAX_CONTENT_TOKENS, Math.floor(tokenLimit * CONTENT_TOKEN_SHARE));
+
 export const ExtractActionDefinition: AgentActionDefinition = {
   type: "extract" as const,
   actionParams: ExtractAction,
@@ -49,11 +63,10 @@ export const ExtractActionDefinition: AgentActionDefinition = {
       const content = await ctx.page.content();
       const markdown = await parseMarkdown(content);
 
+      const model = routeModel(ctx, "extract");
+      const vision = model.capabilities.vision;
       const originalObjective = action.objective;
-      let objective = action.objective;
-      for (const variable of Object.values(ctx.variables)) {
-        objective = objective.replaceAll(`<<${variable.key}>>`, variable.value);
-      }
+      const objective = resolveVariables(action.objective, ctx.variables);
 
       // Take a screenshot of the page
       const cdpSession = await ctx.page.context().newCDPSession(ctx.page);
@@ -68,14 +81,11 @@ export const ExtractActionDefinition: AgentActionDefinition = {
         );
       }
 
-      // Trim markdown to stay within token limit
-      // TODO: this is a hack, we should use a better token counting method
-      const avgTokensPerChar = 0.75; // Conservative estimate of tokens per character
-      const maxChars = Math.floor(ctx.tokenLimit / avgTokensPerChar);
-      const trimmedMarkdown =
-        markdown.length > maxChars
-          ? markdown.slice(0, maxChars) + "\n[Content truncated due to length]"
-          : markdown;
+      // Trim markdown to its share of the token limit, once secrets typed into the page are redacted so none is cut in half
+      const trimmedMarkdown = truncateToTokenLimit(
+        redactSecrets(markdown, ctx.variables),
+        getContentTokenBudget(ctx.tokenLimit),
+      );
       if (ctx.debugDir) {
         fs.writeFileSync(
           `${ctx.debugDir}/extract-markdown-content.md`,
@@ -83,12 +93,18 @@ export const ExtractActionDefinition: AgentActionDefinition = {
         );
       }
 
-      const response = await ctx.llm
-        .withStructuredOutput(VariableExtractionOutput)
-        .invoke([
-          {
-            role: "system",
-            content: `
+      const response = await invokeStructuredOutput({
+        llm: model.llm,
+        schema: VariableExtractionOutput,
+        usage: ctx.usage,
+        role: "extract",
+        capabilities: model.capabilities,
+        signal: ctx.signal,
+        messages: redactSecrets(
+          [
+            {
+              role: "system",
+              content: `
             You are a helpful assistant that extracts information from a page.
 
             Your task is to extract information from the provided page content and screenshot based on a given objective and a list of variable names.
@@ -111,13 +127,13 @@ export const ExtractActionDefinition: AgentActionDefinition = {
             - If you cannot find the information for a variable, return an object with that variable's key and a value of "Not Available".
             - You MUST return one object for each variable in the provided list.
             `,
-          },
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: `
+            },
+            {
+              role: "user",
+              content: [
+                {
+                  type: "text",
+                  text: `
               Original objective: "${originalObjective}"
               Resolved objective: "${objective}"
               
@@ -132,18 +148,26 @@ export const ExtractActionDefinition: AgentActionDefinition = {
               Page content:
               ${trimmedMarkdown}
 
-              Here is a screenshot of the page:
+              ${vision ? "Here is a screenshot of the page:" : ""}
               `,
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: `data:image/png;base64,${screenshot.data}`,
                 },
-              },
-            ],
-          },
-        ]);
+                // Models without vision only get the page content
+                ...(vision
+                  ? [
+                      {
+                        type: "image_url",
+                        image_url: {
+                          url: `data:image/png;base64,${screenshot.data}`,
+                        },
+                      },
+                    ]
+                  : []),
+              ],
+            },
+          ],
+          ctx.variables,
+        ),
+      });
 
       if (response.variables.length === 0) {
         // Add "Not Available" values for each variable requested
@@ -203,7 +227,6 @@ export const ExtractActionDefinition: AgentActionDefinition = {
   try {
     const ${varPrefix}_content = await ctx.page.content();
     const ${varPrefix}_markdown = await parseMarkdown(${varPrefix}_content);
-    const ${varPrefix}_tokenLimit = ${ctx.tokenLimit};
 
     const ${varPrefix}_originalObjective = ${JSON.stringify(action.objective)};
     let ${varPrefix}_objective = ${JSON.stringify(action.objective)};
@@ -219,13 +242,11 @@ export const ExtractActionDefinition: AgentActionDefinition = {
     const ${varPrefix}_screenshot = await ${varPrefix}_cdpSession.send("Page.captureScreenshot");
     ${varPrefix}_cdpSession.detach();
 
-    const ${varPrefix}_avgTokensPerChar = 0.75;  // Conservative estimate of tokens per character
-    const ${varPrefix}_maxTokensForContent = Math.min(20000, ${varPrefix}_tokenLimit * 0.3);
-    const ${varPrefix}_maxChars = Math.floor(${varPrefix}_maxTokensForContent / ${varPrefix}_avgTokensPerChar);
-    const ${varPrefix}_trimmedMarkdown =
-      ${varPrefix}_markdown.length > ${varPrefix}_maxChars
-        ? ${varPrefix}_markdown.slice(0, ${varPrefix}_maxChars) + "\\n[Content truncated due to length]"
-        : ${varPrefix}_markdown;
+    const ${varPrefix}_maxTokensForContent = ${getContentTokenBudget(ctx.tokenLimit)};
+    const ${varPrefix}_trimmedMarkdown = truncateToTokenLimit(
+      ${varPrefix}_markdown,
+      ${varPrefix}_maxTokensForContent,
+    );
 
     const ${varPrefix}_response = await ctx.llm.withStructuredOutput(VariableExtractionOutput).invoke([
         {
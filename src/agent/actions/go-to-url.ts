@@ -1,5 +1,7 @@
 import { z } from "zod";
 import { ActionContext, AgentActionDefinition } from "@/types";
+import { resolveVariables } from "@/utils/secrets";
+import { getActionTimeout } from "./utils";
 
 export const GoToUrlAction = z
   .object({
@@ -17,15 +19,24 @@ export const GoToURLActionDefinition: AgentActionDefinition = {
   actionParams: GoToUrlAction,
 
   run: async (ctx: ActionContext, action: GoToUrlActionType) => {
-    let { url } = action;
-    for (const variable of Object.values(ctx.variables)) {
-      url = url.replaceAll(`<<${variable.key}>>`, variable.value as string);
-    }
+    let url = resolveVariables(action.url, ctx.variables, {
+      includeSecrets: true,
+    });
 
     if (!url.startsWith("http://") && !url.startsWith("https://")) {
       url = `https://${url}`;
     }
-    await ctx.page.goto(url);
+    const blockedReason = ctx.navigationPolicy?.enforce(
+      url,
+      ctx.page.context(),
+    );
+    if (blockedReason) {
+      return {
+        success: false,
+        message: `Navigation blocked by the navigation policy: ${blockedReason}`,
+      };
+    }
+    await ctx.page.goto(url, { timeout: getActionTimeout(ctx) });
     return { success: true, message: `Navigated to ${url}` };
   },
 
@@ -16,6 +16,11 @@ import { KeyPressActionDefinition } from "./key-press";
 import { ThinkingActionDefinition } from "./thinking";
 import { RefreshPageActionDefinition } from "./refresh-page";
 import { PDFActionDefinition } from "./pdf";
+import { SwitchTabActionDefinition } from "./switch-tab";
+import { OpenTabActionDefinition } from "./open-tab";
+import { CloseTabActionDefinition } from "./close-tab";
+import { ReadMCPResourceActionDefinition } from "./read-mcp-resource";
+import { UpdatePlanActionDefinition } from "./update-plan";
 
 /**
  * Custom error class for when an action is not found in the registry
@@ -45,6 +50,9 @@ const DEFAULT_ACTIONS = [
   InputTextActionDefinition,
   KeyPressActionDefinition,
   ThinkingActionDefinition,
+  SwitchTabActionDefinition,
+  OpenTabActionDefinition,
+  CloseTabActionDefinition,
 ];
 
 if (process.env.GEMINI_API_KEY) {
@@ -55,6 +63,9 @@ export {
   DEFAULT_ACTIONS,
   CompleteActionDefinition,
   generateCompleteActionWithOutputDefinition,
+  ReadMCPResourceActionDefinition,
+  UpdatePlanActionDefinition,
+  ThinkingActionDefinition,
   waitForElementToBeEnabled,
   waitForElementToBeStable,
 };
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { ActionContext, AgentActionDefinition } from "@/types";
-import { getLocator, getLocatorString } from "./utils";
+import { getActionTimeout, getLocator, getLocatorString } from "./utils";
+import { resolveVariables } from "@/utils/secrets";
 
 export const InputTextAction = z
   .object({
@@ -26,16 +27,16 @@ export const InputTextActionDefinition: AgentActionDefinition = {
   actionParams: InputTextAction,
 
   run: async (ctx: ActionContext, action: InputTextActionType) => {
-    let { index, text } = action;
-    for (const variable of Object.values(ctx.variables)) {
-      text = text.replaceAll(`<<${variable.key}>>`, variable.value);
-    }
+    const { index } = action;
+    const text = resolveVariables(action.text, ctx.variables, {
+      includeSecrets: true,
+    });
 
     const locator = getLocator(ctx, index);
     if (!locator) {
       return { success: false, message: "Element not found" };
     }
-    await locator.fill(text, { timeout: 5_000 });
+    await locator.fill(text, { timeout: getActionTimeout(ctx, 5_000) });
 
     return {
       success: true,
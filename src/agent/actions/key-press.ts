@@ -5,7 +5,7 @@ import { ActionContext, AgentActionDefinition } from "@/types";
  * Translates xdotool-like key strings to Playwright-compatible keys.
  * Reference: https://developer.mozilla.org/en-US/docs/Web/API/KeyboardEvent/key/Key_Values
  */
-function translateKey(key: string): string {
+export function translateKey(key: string): string {
   const keyMap: Record<string, string> = {
     // Common / Basic Keys
     return: "Enter",
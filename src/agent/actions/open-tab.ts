@@ -0,0 +1,72 @@
+import { z } from "zod";
+import { ActionContext, ActionOutput, AgentActionDefinition } from "@/types";
+import { resolveVariables } from "@/utils/secrets";
+import { getActionTimeout } from "./utils";
+
+export const OpenTabAction = z
+  .object({
+    url: z.string().describe(
+      `The URL to open in the new tab. This can be a static value or the name of a variable given in the format <<variableKey>>.
+        If you're using a variable, make sure it comes from the list of variables provided to you.`,
+    ),
+  })
+  .describe("Open a URL in a new tab and switch to it");
+
+export type OpenTabActionType = z.infer<typeof OpenTabAction>;
+
+export const OpenTabActionDefinition: AgentActionDefinition = {
+  type: "openTab" as const,
+  actionParams: OpenTabAction,
+
+  run: async (
+    ctx: ActionContext,
+    action: OpenTabActionType,
+  ): Promise<ActionOutput> => {
+    if (!ctx.tabs) {
+      return { success: false, message: "Tabs are not available" };
+    }
+    let url = resolveVariables(action.url, ctx.variables);
+    if (!url.startsWith("http://") && !url.startsWith("https://")) {
+      url = `https://${url}`;
+    }
+    const blockedReason = ctx.navigationPolicy?.enforce(
+      url,
+      ctx.page.context(),
+    );
+    if (blockedReason) {
+      return {
+        success: false,
+        message: `Navigation blocked by the navigation policy: ${blockedReason}`,
+      };
+    }
+    await ctx.tabs.openTab(url, getActionTimeout(ctx));
+    return {
+      success: true,
+      message: `Opened ${url} in tab ${ctx.tabs.currentIndex}`,
+    };
+  },
+
+  generateCode: async (
+    ctx: ActionContext,
+    action: OpenTabActionType,
+    prefix: string,
+  ) => {
+    const varPrefix = `${prefix}_openTab`;
+    return `
+      let ${varPrefix}_url = "${action.url}";
+      for (const variable of Object.values(ctx.variables)) {
+        ${varPrefix}_url = ${varPrefix}_url.replaceAll(
+          \`<<\${variable.key}>>\`,
+          variable.value as string,
+        );
+      }
+      ctx.page = await agent.newPage();
+      await ctx.page.goto(${varPrefix}_url);
+      console.log(\`Opened \${${varPrefix}_url} in a new tab\`);
+    `;
+  },
+
+  pprintAction: function (params: OpenTabActionType): string {
+    return `Open URL in new tab: ${params.url}`;
+  },
+};
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { ActionContext, AgentActionDefinition } from "@/types";
+import { getActionTimeout } from "./utils";
 
 export const PageBackAction = z
   .object({})
@@ -12,7 +13,7 @@ export const PageBackActionDefinition: AgentActionDefinition = {
   actionParams: PageBackAction,
 
   run: async (ctx: ActionContext) => {
-    await ctx.page.goBack();
+    await ctx.page.goBack({ timeout: getActionTimeout(ctx) });
     return { success: true, message: "Navigated back to the previous page" };
   },
 
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { ActionContext, AgentActionDefinition } from "@/types";
+import { getActionTimeout } from "./utils";
 
 export const PageForwardAction = z
   .object({})
@@ -12,7 +13,7 @@ export const PageForwardActionDefinition: AgentActionDefinition = {
   actionParams: PageForwardAction,
 
   run: async (ctx: ActionContext) => {
-    await ctx.page.goForward();
+    await ctx.page.goForward({ timeout: getActionTimeout(ctx) });
     return { success: true, message: "Navigated forward to the next page" };
   },
 
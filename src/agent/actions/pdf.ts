@@ -1,10 +1,12 @@
 import { z } from "zod";
 import { ActionContext, AgentActionDefinition } from "@/types";
 import { config } from "dotenv";
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, MediaModality } from "@google/genai";
 
 config();
 
+const PDF_MODEL = "gemini-2.5-pro-preview-03-25";
+
 export const PDFAction = z
   .object({
     pdfUrl: z.string().describe("The URL of the PDF to analyze."),
@@ -55,7 +57,7 @@ export const PDFActionDefinition: AgentActionDefinition = {
       };
     }
     const geminiResponse = await goog.models.generateContent({
-      model: "gemini-2.5-pro-preview-03-25",
+      model: PDF_MODEL,
       contents: [
         { text: prompt },
         {
@@ -66,6 +68,18 @@ export const PDFActionDefinition: AgentActionDefinition = {
         },
       ],
     });
+    const usageMetadata = geminiResponse.usageMetadata;
+    if (usageMetadata) {
+      ctx.usage?.record({
+        model: PDF_MODEL,
+        role: "pdf",
+        promptTokens: usageMetadata.promptTokenCount ?? 0,
+        completionTokens: usageMetadata.candidatesTokenCount ?? 0,
+        imageTokens: (usageMetadata.promptTokensDetails ?? [])
+          .filter((detail) => detail.modality === MediaModality.IMAGE)
+          .reduce((total, detail) => total + (detail.tokenCount ?? 0), 0),
+      });
+    }
     return {
       success: true,
       message: geminiResponse.text || "No response text returned.",
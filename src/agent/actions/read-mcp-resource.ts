@@ -0,0 +1,59 @@
+import { z } from "zod";
+import { ActionContext, ActionOutput, AgentActionDefinition } from "@/types";
+import { truncateToTokenLimit } from "@/utils/tokenizer";
+
+// Resource contents stay in the history of the task, keep them short
+const MAX_RESOURCE_TOKENS = 4000;
+
+export const ReadMCPResourceAction = z
+  .object({
+    uri: z
+      .string()
+      .describe("The URI of the resource, as listed in MCP Resources."),
+    serverId: z
+      .string()
+      .optional()
+      .describe(
+        "The ID of the server to read from. Only needed for resources that are not listed.",
+      ),
+  })
+  .describe("Read a resource exposed by a connected MCP server");
+
+export type ReadMCPResourceActionType = z.infer<typeof ReadMCPResourceAction>;
+
+export const ReadMCPResourceActionDefinition: AgentActionDefinition = {
+  type: "readMcpResource" as const,
+  actionParams: ReadMCPResourceAction,
+
+  run: async (
+    ctx: ActionContext,
+    action: ReadMCPResourceActionType,
+  ): Promise<ActionOutput> => {
+    if (!ctx.mcpClient) {
+      return { success: false, message: "No MCP server is connected" };
+    }
+    const contents = await ctx.mcpClient.readResource(
+      action.uri,
+      action.serverId,
+    );
+    if (contents.length === 0) {
+      return { success: false, message: `Resource ${action.uri} is empty` };
+    }
+    const text = contents
+      .map((content) =>
+        contents.length > 1 ? `${content.uri}:\n${content.text}` : content.text,
+      )
+      .join("\n\n");
+    return {
+      success: true,
+      message: `Content of resource ${action.uri}:\n${truncateToTokenLimit(
+        text,
+        Math.min(MAX_RESOURCE_TOKENS, ctx.tokenLimit),
+      )}`,
+    };
+  },
+
+  pprintAction: function (params: ReadMCPResourceActionType): string {
+    return `Read MCP resource ${params.uri}`;
+  },
+};
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { ActionContext, AgentActionDefinition } from "@/types";
+import { getActionTimeout } from "./utils";
 
 export const RefreshPageAction = z
   .object({})
@@ -14,7 +15,7 @@ export const RefreshPageActionDefinition: AgentActionDefinition = {
   actionParams: RefreshPageAction,
 
   run: async (ctx: ActionContext) => {
-    await ctx.page.reload();
+    await ctx.page.reload({ timeout: getActionTimeout(ctx) });
     return { success: true, message: "Succesfully refreshed a page." };
   },
 
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { ActionContext, AgentActionDefinition } from "@/types";
-import { getLocator, getLocatorString } from "./utils";
+import { getActionTimeout, getLocator, getLocatorString } from "./utils";
+import { resolveVariables } from "@/utils/secrets";
 
 export const SelectOptionAction = z
   .object({
@@ -23,17 +24,18 @@ export const SelectOptionActionDefinition: AgentActionDefinition = {
   actionParams: SelectOptionAction,
 
   run: async (ctx: ActionContext, action: SelectOptionActionType) => {
-    let { index, text } = action;
-    for (const variable of Object.values(ctx.variables)) {
-      text = text.replaceAll(`<<${variable.key}>>`, variable.value);
-    }
+    const { index } = action;
+    const text = resolveVariables(action.text, ctx.variables);
 
     const locator = getLocator(ctx, index);
     if (!locator) {
       return { success: false, message: "Element not found" };
     }
 
-    await locator.selectOption({ label: text });
+    await locator.selectOption(
+      { label: text },
+      { timeout: getActionTimeout(ctx) },
+    );
     return {
       success: true,
       message: `Selected option "${text}" from element with index ${index}`,
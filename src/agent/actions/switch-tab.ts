@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { ActionContext, ActionOutput, AgentActionDefinition } from "@/types";
+
+export const SwitchTabAction = z
+  .object({
+    index: z
+      .number()
+      .describe("The index of the tab to switch to, as listed in Open Tabs."),
+  })
+  .describe("Switch to another open tab in the browser");
+
+export type SwitchTabActionType = z.infer<typeof SwitchTabAction>;
+
+export const SwitchTabActionDefinition: AgentActionDefinition = {
+  type: "switchTab" as const,
+  actionParams: SwitchTabAction,
+
+  run: async (
+    ctx: ActionContext,
+    action: SwitchTabActionType,
+  ): Promise<ActionOutput> => {
+    if (!ctx.tabs) {
+      return { success: false, message: "Tabs are not available" };
+    }
+    const page = await ctx.tabs.switchTab(action.index);
+    return {
+      success: true,
+      message: `Switched to tab ${action.index} (${page.url()})`,
+    };
+  },
+
+  generateCode: async (ctx: ActionContext, action: SwitchTabActionType) => {
+    return `
+      ctx.page = (await agent.getPages())[${action.index}];
+      await ctx.page.bringToFront();
+    `;
+  },
+
+  pprintAction: function (params: SwitchTabActionType): string {
+    return `Switch to tab ${params.index}`;
+  },
+};
@@ -0,0 +1,46 @@
+import { z } from "zod";
+import { ActionContext, ActionOutput, AgentActionDefinition } from "@/types";
+
+export const UpdatePlanAction = z
+  .object({
+    plan: z
+      .array(
+        z.object({
+          description: z.string().describe("The subgoal."),
+          done: z.boolean().describe("Whether the subgoal is accomplished."),
+        }),
+      )
+      .describe(
+        "The whole revised plan, in order. Mark accomplished subgoals as done, and add, remove or reorder subgoals when the plan no longer fits the page.",
+      ),
+  })
+  .describe(
+    "Update the plan listed in the Plan section, once a subgoal is accomplished or when the plan has to change",
+  );
+
+export type UpdatePlanActionType = z.infer<typeof UpdatePlanAction>;
+
+export const UpdatePlanActionDefinition: AgentActionDefinition = {
+  type: "updatePlan" as const,
+  actionParams: UpdatePlanAction,
+
+  run: async (
+    ctx: ActionContext,
+    action: UpdatePlanActionType,
+  ): Promise<ActionOutput> => {
+    if (action.plan.length === 0) {
+      return { success: false, message: "The plan must not be empty" };
+    }
+    const done = action.plan.filter((item) => item.done).length;
+    return {
+      success: true,
+      message: `Plan updated, ${done}/${action.plan.length} subgoals done`,
+      planUpdate: action.plan,
+    };
+  },
+
+  pprintAction: function (params: UpdatePlanActionType): string {
+    const done = params.plan.filter((item) => item.done).length;
+    return `Update plan (${done}/${params.plan.length} subgoals done)`;
+  },
+};
@@ -1,21 +1,67 @@
+import { FrameLocator, Page } from "playwright";
 import { ActionContext } from "@/types";
+import { InteractiveElement } from "@/context-providers/dom/types";
 
-export function getLocator(ctx: ActionContext, index: number) {
-  const locatorString = getLocatorString(ctx, index);
-  if (!locatorString) {
+const getElementSelector = (element: InteractiveElement) => {
+  if (element.isUnderShadowRoot) {
+    return element.cssPath;
+  } else {
+    return `xpath=${element.xpath}`;
+  }
+};
+
+export function getLocator(
+  ctx: Pick<ActionContext, "page" | "domState">,
+  index: number,
+) {
+  const element = ctx.domState.elements.get(index);
+  if (!element) {
     return null;
   }
-  return ctx.page.locator(locatorString); // Note: this does not guarantee the locator is valid
+  // Elements inside iframes are resolved through a frameLocator per iframe
+  let root: Page | FrameLocator = ctx.page;
+  for (const frameSelector of element.frameSelectors ?? []) {
+    root = root.frameLocator(frameSelector);
+  }
+  return root.locator(getElementSelector(element)); // Note: this does not guarantee the locator is valid
 }
 
-export function getLocatorString(ctx: ActionContext, index: number) {
+/**
+ * Timeout of a Playwright call of an action, cut to the time left before the step times out
+ * @param ctx The context of the action
+ * @param timeout Timeout of the call, the Playwright default if not set
+ * @returns The timeout to pass to the call
+ */
+export function getActionTimeout(
+  ctx: Pick<ActionContext, "timeoutAt">,
+  timeout: number,
+): number;
+export function getActionTimeout(
+  ctx: Pick<ActionContext, "timeoutAt">,
+  timeout?: number,
+): number | undefined;
+export function getActionTimeout(
+  ctx: Pick<ActionContext, "timeoutAt">,
+  timeout?: number,
+): number | undefined {
+  if (ctx.timeoutAt === undefined) {
+    return timeout;
+  }
+  // A timeout of 0 disables it in Playwright
+  const remaining = Math.max(1, ctx.timeoutAt - Date.now());
+  return timeout === undefined ? remaining : Math.min(timeout, remaining);
+}
+
+export function getLocatorString(
+  ctx: Pick<ActionContext, "domState">,
+  index: number,
+) {
   const element = ctx.domState.elements.get(index);
   if (!element) {
     return null;
   }
-  if (element.isUnderShadowRoot) {
-    return element.cssPath;
-  } else {
-    return `xpath=${element.xpath}`;
-  }
+  // Same chain as getLocator, written as a single selector usable with page.locator
+  return [...(element.frameSelectors ?? []), getElementSelector(element)].join(
+    " >> internal:control=enter-frame >> ",
+  );
 }
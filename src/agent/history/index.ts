@@ -0,0 +1,236 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import {
+  BaseMessageLike,
+  MessageContentComplex,
+} from "@langchain/core/messages";
+import { AgentStep, HistoryConfig, TaskState } from "@/types";
+import { countTokens } from "@/utils/tokenizer";
+import { retry } from "@/utils/retry";
+import { raceAbort } from "@/utils/abort";
+import { estimateImageTokens, UsageTracker } from "../llms/usage";
+import { SYSTEM_PROMPT_SUMMARIZE_HISTORY } from "../messages/system-prompt";
+
+const DEFAULT_KEEP_LAST_STEPS = 5;
+const DEFAULT_KEEP_SCREENSHOTS = 1;
+
+export interface HistoryView {
+  /**
+   * Steps that are replayed verbatim
+   */
+  steps: AgentStep[];
+  /**
+   * Rolling summary of the steps that are no longer replayed
+   */
+  memory?: string;
+  /**
+   * Number of earlier steps that are neither replayed nor summarized
+   */
+  omittedSteps: number;
+}
+
+/**
+ * Count the tokens of a prompt, text parts are counted with the tokenizer and images are estimated from their dimensions
+ * @param messages The messages of the prompt
+ */
+export const countMessageTokens = (messages: BaseMessageLike[]): number => {
+  let tokens = estimateImageTokens(messages);
+  for (const message of messages) {
+    const content =
+      typeof message === "object" && message !== null && "content" in message
+        ? message.content
+        : message;
+    if (typeof content === "string") {
+      tokens += countTokens(content);
+    } else if (Array.isArray(content)) {
+      for (const part of content as MessageContentComplex[]) {
+        if (part.type === "text" && typeof part.text === "string") {
+          tokens += countTokens(part.text);
+        }
+      }
+    }
+  }
+  return tokens;
+};
+
+/**
+ * Replace the images of all but the most recent screenshots with a placeholder
+ * @param messages The messages of the prompt
+ * @param keepScreenshots Number of most recent screenshots to keep
+ */
+export const dropStaleScreenshots = (
+  messages: BaseMessageLike[],
+  keepScreenshots: number,
+): BaseMessageLike[] => {
+  let kept = 0;
+  const result = [...messages];
+  for (let i = result.length - 1; i >= 0; i--) {
+    const message = result[i];
+    if (
+      typeof message !== "object" ||
+      message === null ||
+      !("content" in message) ||
+      !Array.isArray(message.content)
+    ) {
+      continue;
+    }
+    const hasImage = message.content.some((part) => part?.type === "image_url");
+    if (!hasImage) {
+      continue;
+    }
+    if (kept < keepScreenshots) {
+      kept++;
+      continue;
+    }
+    result[i] = {
+      ...message,
+      content: message.content.map((part) =>
+        part?.type === "image_url"
+          ? { type: "text", text: "[Stale screenshot omitted]" }
+          : part,
+      ),
+    } as BaseMessageLike;
+  }
+  return result;
+};
+
+const formatStepForSummary = (step: AgentStep): string => {
+  const actions = step.agentOutput.actions
+    .map((action, index) => {
+      const output = step.actionOutputs[index];
+      const result = output
+        ? `${output.success ? "succeeded" : "failed"}: ${output.message}`
+        : "not run";
+      return `  - ${action.type} ${JSON.stringify(action.params)} -> ${result}`;
+    })
+    .join("\n");
+  return `Step ${step.idx}
+Goal: ${step.agentOutput.nextGoal}
+Memory: ${step.agentOutput.memory}
+Actions:
+${actions}`;
+};
+
+/**
+ * Decides which previous steps of a task are replayed to the model, and folds older steps into a rolling memory block.
+ */
+export class HistoryManager {
+  private strategy: NonNullable<HistoryConfig["strategy"]>;
+  private keepLastSteps: number;
+  private keepScreenshots: number;
+
+  constructor(
+    private taskState: TaskState,
+    private params: {
+      config?: HistoryConfig;
+      llm: BaseChatModel;
+      tokenLimit: number;
+      usage?: UsageTracker;
+    },
+  ) {
+    this.strategy = params.config?.strategy ?? "full";
+    this.keepLastSteps =
+      params.config?.keepLastSteps ?? DEFAULT_KEEP_LAST_STEPS;
+    this.keepScreenshots =
+      params.config?.keepScreenshots ?? DEFAULT_KEEP_SCREENSHOTS;
+  }
+
+  /**
+   * Build the messages for the next step, compacting the history until the prompt fits in the token limit
+   * @param build Builds the messages for a given view of the history
+   * @param signal Aborts the summarization calls
+   */
+  async buildMessages(
+    build: (view: HistoryView) => Promise<BaseMessageLike[]>,
+    signal?: AbortSignal,
+  ): Promise<BaseMessageLike[]> {
+    const steps = this.taskState.steps;
+    let keep =
+      this.strategy === "full"
+        ? steps.length
+        : Math.min(this.keepLastSteps, steps.length);
+
+    while (true) {
+      const view = await this.getView(keep, signal);
+      const messages = dropStaleScreenshots(
+        await build(view),
+        this.keepScreenshots,
+      );
+      if (
+        keep === 0 ||
+        countMessageTokens(messages) <= this.params.tokenLimit
+      ) {
+        return messages;
+      }
+      keep = Math.floor(keep / 2);
+    }
+  }
+
+  private async getView(
+    keep: number,
+    signal?: AbortSignal,
+  ): Promise<HistoryView> {
+    const steps = this.taskState.steps;
+    const olderSteps = steps.slice(0, steps.length - keep);
+    const recentSteps = steps.slice(steps.length - keep);
+
+    if (this.strategy !== "summarize") {
+      return { steps: recentSteps, omittedSteps: olderSteps.length };
+    }
+
+    const summarizedSteps = this.taskState.history?.summarizedSteps ?? 0;
+    if (olderSteps.length > summarizedSteps) {
+      await this.summarize(olderSteps.slice(summarizedSteps), signal);
+    }
+    return {
+      steps: steps.slice(this.taskState.history?.summarizedSteps ?? 0),
+      memory: this.taskState.history?.summary,
+      omittedSteps: 0,
+    };
+  }
+
+  /**
+   * Fold steps into the rolling memory of the task
+   * @param steps The steps to fold, following the steps that are already summarized
+   * @param signal Aborts the summarization call
+   */
+  private async summarize(
+    steps: AgentStep[],
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const previousSummary = this.taskState.history?.summary;
+    const messages: BaseMessageLike[] = [
+      { role: "system", content: SYSTEM_PROMPT_SUMMARIZE_HISTORY },
+      {
+        role: "user",
+        content: `=== Final Goal ===
+${this.taskState.task}
+=== Current Memory ===
+${previousSummary ?? "No memory yet."}
+=== New Steps ===
+${steps.map(formatStepForSummary).join("\n\n")}`,
+      },
+    ];
+    const response = await retry({
+      // Providers that ignore the signal stop being waited for once it aborts
+      func: () =>
+        raceAbort(this.params.llm.invoke(messages, { signal }), signal),
+      signal,
+    });
+    this.params.usage?.recordMessage(response, {
+      llm: this.params.llm,
+      role: "summarizer",
+      input: messages,
+    });
+    const summary =
+      typeof response.content === "string"
+        ? response.content
+        : response.content
+            .map((part) => (part.type === "text" ? part.text : ""))
+            .join("");
+    this.taskState.history = {
+      summary: summary.trim(),
+      summarizedSteps:
+        (this.taskState.history?.summarizedSteps ?? 0) + steps.length,
+    };
+  }
+}
@@ -4,7 +4,7 @@ import { Browser, BrowserContext, Locator, Page } from "playwright";
 import { v4 as uuidv4 } from "uuid";
 import { z } from "zod";
 
-import { getDom } from "@/context-providers/dom";
+import { getDomState } from "@/context-providers";
 import {
   BrowserProviders,
   HyperAgentConfig,
@@ -13,6 +13,7 @@ import {
 } from "@/types/config";
 import {
   ActionContext,
+  ActionOutput,
   ActionType,
   AgentActionDefinition,
   endTaskStatuses,
@@ -24,8 +25,11 @@ import {
 } from "@/types";
 import {
   CompleteActionDefinition,
+  ActionNotFoundError,
   DEFAULT_ACTIONS,
   generateCompleteActionWithOutputDefinition,
+  ReadMCPResourceActionDefinition,
+  UpdatePlanActionDefinition,
 } from "./actions";
 import {
   HyperbrowserProvider,
@@ -34,14 +38,41 @@ import {
 } from "../browser-providers";
 import { HyperagentError } from "./error";
 import { SYSTEM_PROMPT_FIND_ELEMENT } from "./messages/system-prompt";
-import { MCPClient } from "./mcp/client";
+import {
+  MCPClient,
+  MCPPromptInfo,
+  MCPResourceInfo,
+  MCPServerInfo,
+} from "./mcp/client";
 import { compositeScreenshot, runAgentTask } from "./tools/agent";
 import { HyperPage, HyperVariable } from "@/types/agent/types";
 import { buildAgentStepMessages } from "./messages/builder";
-import { ErrorEmitter } from "@/utils";
+import { HyperAgentEventEmitter } from "@/utils";
+import { HyperAgentEvents } from "@/types/agent/events";
 import { retry } from "@/utils/retry";
-import { sleep } from "@/utils/sleep";
+import { waitForPageSettled } from "@/utils/page-settle";
 import { getLocator } from "./actions/utils";
+import { AgentCtx } from "./tools/types";
+import { restoreStorageState } from "./tools/checkpoint";
+import { updateTaskStatus } from "./tools/status";
+import TaskStore from "@/types/task-store/types";
+import { FileSystemTaskStore } from "@/task-stores";
+import { invokeStructuredOutput } from "./llms/structured-output";
+import { UsageTracker } from "./llms/usage";
+import { getModelCapabilities } from "./llms/capabilities";
+import { ModelRouter } from "./llms/router";
+import { ModelCapabilities } from "@/types/agent/models";
+import { UsageReport } from "@/types/agent/usage";
+import { ReplayParams, ReplayResult, TaskTrace } from "@/types/agent/trace";
+import { DOMState } from "@/context-providers/dom/types";
+import { replayTrace } from "./tools/replay";
+import { NavigationPolicy } from "./tools/navigation-policy";
+import { TabManager } from "./tools/tabs";
+import { approveAction } from "./tools/approval";
+import { redactSecrets } from "@/utils/secrets";
+
+// Time closeAgent waits for cancelled tasks to wind down before closing the browser under them
+const TASK_SHUTDOWN_TIMEOUT_MS = 10000;
 
 const ResponseSchema = z.object({
   index: z.number().describe("The index number of the element"),
@@ -50,6 +81,7 @@ const ResponseSchema = z.object({
 export class HyperAgent<T extends BrowserProviders = "Local"> {
   public llm: BaseChatModel;
   private tasks: Record<string, TaskState> = {};
+  private taskRuns: Record<string, Promise<TaskOutput>> = {};
   private tokenLimit = 128000; // Default token limit
   private debug = false;
   private mcpClient: MCPClient | undefined;
@@ -68,7 +100,13 @@ export class HyperAgent<T extends BrowserProviders = "Local"> {
   public context: BrowserContext | null = null;
   private _currentPage: Page | null = null;
   private _variables: Record<string, HyperVariable> = {};
-  private errorEmitter: ErrorEmitter;
+  private emitter: HyperAgentEventEmitter;
+  private taskEmitters: Record<string, HyperAgentEventEmitter> = {};
+  private taskStore?: TaskStore;
+  private usage: UsageTracker;
+  private navigationPolicy?: NavigationPolicy;
+  private modelCapabilities: ModelCapabilities;
+  private models: ModelRouter;
 
   public get currentPage(): HyperPage | null {
     if (this._currentPage) {
@@ -123,8 +161,31 @@ export class HyperAgent<T extends BrowserProviders = "Local"> {
     this.debug = params.debug ?? false;
     this.generateScript = params.generateScript ?? false;
     this.scriptPath = params.scriptPath;
-    this.tokenLimit = params.tokenLimit ?? this.tokenLimit;
-    this.errorEmitter = new ErrorEmitter();
+    this.modelCapabilities = getModelCapabilities(
+      this.llm,
+      params.modelCapabilities,
+    );
+    this.models = new ModelRouter(
+      () => this.llm,
+      params.modelRouting,
+      params.modelCapabilities,
+    );
+    // Models with a smaller context window lower the default token limit
+    this.tokenLimit =
+      params.tokenLimit ??
+      Math.min(
+        this.tokenLimit,
+        this.modelCapabilities.maxContextTokens ?? this.tokenLimit,
+      );
+    this.emitter = new HyperAgentEventEmitter();
+    this.usage = new UsageTracker({ pricing: params.pricing });
+    if (params.navigationPolicy) {
+      this.navigationPolicy = new NavigationPolicy(params.navigationPolicy);
+    }
+    this.taskStore =
+      params.taskStore === false
+        ? undefined
+        : (params.taskStore ?? new FileSystemTaskStore());
   }
 
   /**
@@ -137,42 +198,61 @@ export class HyperAgent<T extends BrowserProviders = "Local"> {
       this.context = await this.browser.newContext({
         viewport: null,
       });
-
-      // Inject script to track event listeners
-      await this.context.addInitScript(() => {
-        // TODO: Check this list of events
-        const interactiveEvents = new Set([
-          "click",
-          "mousedown",
-          "mouseup",
-          "keydown",
-          "keyup",
-          "keypress",
-          "submit",
-          "change",
-          "input",
-          "focus",
-          "blur",
-        ]); // Add more events as needed
-
-        const originalAddEventListener = Element.prototype.addEventListener;
-        Element.prototype.addEventListener = function (
-          type: string,
-          listener: EventListenerOrEventListenerObject,
-          options?: boolean | AddEventListenerOptions,
-        ) {
-          if (interactiveEvents.has(type.toLowerCase())) {
-            this.setAttribute("data-has-interactive-listener", "true");
-          }
-          originalAddEventListener.call(this, type, listener, options);
-        };
-      });
+      await this.setupContext(this.context);
 
       return this.browser;
     }
     return this.browser;
   }
 
+  /**
+   * Create a browser context isolated from the agent's context (cookies, storage, pages), on the same browser.
+   * Used to run tasks in parallel, see `AgentPool`.
+   * @returns The new context, to be closed by the caller
+   */
+  public async newContext(): Promise<BrowserContext> {
+    const browser = await this.initBrowser();
+    const context = await browser.newContext({
+      viewport: null,
+    });
+    await this.setupContext(context);
+    return context;
+  }
+
+  private async setupContext(context: BrowserContext): Promise<void> {
+    await this.navigationPolicy?.attach(context);
+
+    // Inject script to track event listeners
+    await context.addInitScript(() => {
+      // TODO: Check this list of events
+      const interactiveEvents = new Set([
+        "click",
+        "mousedown",
+        "mouseup",
+        "keydown",
+        "keyup",
+        "keypress",
+        "submit",
+        "change",
+        "input",
+        "focus",
+        "blur",
+      ]); // Add more events as needed
+
+      const originalAddEventListener = Element.prototype.addEventListener;
+      Element.prototype.addEventListener = function (
+        type: string,
+        listener: EventListenerOrEventListenerObject,
+        options?: boolean | AddEventListenerOptions,
+      ) {
+        if (interactiveEvents.has(type.toLowerCase())) {
+          this.setAttribute("data-has-interactive-listener", "true");
+        }
+        originalAddEventListener.call(this, type, listener, options);
+      };
+    });
+  }
+
   /**
    * Use this function instead of accessing this.actions directly.
    * This function configures if there is a need for an output schema as a part of the complete action.
@@ -181,14 +261,18 @@ export class HyperAgent<T extends BrowserProviders = "Local"> {
    */
   private getActions(
     outputSchema?: z.AnyZodObject,
+    planning: boolean = false,
   ): Array<AgentActionDefinition> {
+    const actions = planning
+      ? [...this.actions, UpdatePlanActionDefinition]
+      : this.actions;
     if (outputSchema) {
       return [
-        ...this.actions,
+        ...actions,
         generateCompleteActionWithOutputDefinition(outputSchema),
       ];
     } else {
-      return [...this.actions, CompleteActionDefinition];
+      return [...actions, CompleteActionDefinition];
     }
   }
 
@@ -209,6 +293,16 @@ export class HyperAgent<T extends BrowserProviders = "Local"> {
     this._variables[variable.key] = variable;
   }
 
+  /**
+   * Add a secret variable, e.g. a password or an API key.
+   * The LLM only sees the `<<key>>` reference of a secret, its value is substituted when typing text or navigating,
+   * and redacted from messages, debug files, generated scripts and traces.
+   * @param secret The secret to add
+   */
+  public addSecret(secret: Omit<HyperVariable, "secret">): void {
+    this.addVariable({ ...secret, secret: true });
+  }
+
   /**
    * Get a variable
    * @param key Key of the variable
@@ -256,15 +350,24 @@ export class HyperAgent<T extends BrowserProviders = "Local"> {
   }
 
   /**
-   * Close the agent and all associated resources
+   * Close the agent and all associated resources. Running tasks are cancelled, and given some time to wind down
+   * before the browser closes.
    */
   public async closeAgent(): Promise<void> {
-    for (const taskId in this.tasks) {
-      const task = this.tasks[taskId];
-      if (!endTaskStatuses.has(task.status)) {
-        task.status = TaskStatus.CANCELLED;
-      }
+    const runningTasks = Object.values(this.tasks).filter(
+      (task) => !endTaskStatuses.has(task.status),
+    );
+    for (const task of runningTasks) {
+      this.cancelTask(task);
     }
+    let shutdownTimeout: NodeJS.Timeout | undefined;
+    await Promise.race([
+      Promise.allSettled(runningTasks.map((task) => this.taskRuns[task.id])),
+      new Promise((resolve) => {
+        shutdownTimeout = setTimeout(resolve, TASK_SHUTDOWN_TIMEOUT_MS);
+      }),
+    ]);
+    clearTimeout(shutdownTimeout);
 
     if (this.mcpClient) {
       await this.mcpClient.disconnect();
@@ -282,7 +385,7 @@ export class HyperAgent<T extends BrowserProviders = "Local"> {
    * Get the current page or create a new one if none exists
    * @returns The current page
    */
-  public async getCurrentPage(): Promise<Page> {
+  public async getCurrentPage(): Promise<HyperPage> {
     if (!this.browser) {
       await this.initBrowser();
     }
@@ -307,30 +410,74 @@ export class HyperAgent<T extends BrowserProviders = "Local"> {
     if (!taskState) {
       throw new HyperagentError(`Task ${taskId} not found`);
     }
+    const emitter = this.taskEmitters[taskId];
     return {
+      id: taskId,
       getStatus: () => taskState.status,
       pause: () => {
         if (taskState.status === TaskStatus.RUNNING) {
-          taskState.status = TaskStatus.PAUSED;
+          updateTaskStatus(taskState, TaskStatus.PAUSED, emitter);
         }
         return taskState.status;
       },
       resume: () => {
         if (taskState.status === TaskStatus.PAUSED) {
-          taskState.status = TaskStatus.RUNNING;
-        }
-        return taskState.status;
-      },
-      cancel: () => {
-        if (taskState.status !== TaskStatus.COMPLETED) {
-          taskState.status = TaskStatus.CANCELLED;
+          updateTaskStatus(taskState, TaskStatus.RUNNING, emitter);
         }
         return taskState.status;
       },
-      emitter: this.errorEmitter,
+      cancel: () => this.cancelTask(taskState),
+      emitter,
     };
   }
 
+  /**
+   * Get the token usage and cost of all LLM calls made by this agent
+   * @returns Usage totals, broken down by model and by role
+   */
+  public getUsage(): UsageReport {
+    return this.usage.getUsage();
+  }
+
+  /**
+   * Subscribe to lifecycle events of all tasks run by this agent
+   * @param event Name of the event
+   * @param listener Listener invoked with the event payload
+   */
+  public on<K extends keyof HyperAgentEvents>(
+    event: K,
+    listener: HyperAgentEvents[K],
+  ): this {
+    this.emitter.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Subscribe to the next occurrence of a lifecycle event
+   * @param event Name of the event
+   * @param listener Listener invoked with the event payload
+   */
+  public once<K extends keyof HyperAgentEvents>(
+    event: K,
+    listener: HyperAgentEvents[K],
+  ): this {
+    this.emitter.once(event, listener);
+    return this;
+  }
+
+  /**
+   * Remove a lifecycle event listener
+   * @param event Name of the event
+   * @param listener The listener to remove
+   */
+  public off<K extends keyof HyperAgentEvents>(
+    event: K,
+    listener: HyperAgentEvents[K],
+  ): this {
+    this.emitter.off(event, listener);
+    return this;
+  }
+
   /**
    * Execute a task asynchronously and return a Task control object
    * @param task The task to execute
@@ -343,46 +490,19 @@ export class HyperAgent<T extends BrowserProviders = "Local"> {
     params?: TaskParams,
     initPage?: Page,
   ): Promise<Task> {
-    const taskId = uuidv4();
     const page = initPage || (await this.getCurrentPage());
-    const taskState: TaskState = {
-      id: taskId,
-      task: task,
-      status: TaskStatus.PENDING,
-      startingPage: page,
-      steps: [],
-    };
-    this.tasks[taskId] = taskState;
+    const taskState = this.createTaskState(task, page);
+    const taskId = taskState.id;
 
-    const debugDir = params?.debugDir || `debug/${taskId}`;
-    const scriptFile = this.generateScript
-      ? this.scriptPath
-        ? this.scriptPath
-        : `${debugDir}/script.ts`
-      : undefined;
-    runAgentTask(
-      {
-        llm: this.llm,
-        actions: this.getActions(params?.outputSchema),
-        tokenLimit: this.tokenLimit,
-        debug: this.debug,
-        generateScript: this.generateScript,
-        scriptFile: scriptFile,
-        debugDir: debugDir,
-        mcpClient: this.mcpClient,
-        variables: this._variables,
-        agentConfig: this.config,
-      },
-      taskState,
-      params,
-    ).catch((error: Error) => {
+    this.runTask(taskState, params).catch((error: Error) => {
       // Retrieve the correct state to update
       const failedTaskState = this.tasks[taskId];
       if (failedTaskState) {
-        failedTaskState.status = TaskStatus.FAILED;
         failedTaskState.error = error.message;
-        // Emit error on the central emitter, including the taskId
-        this.errorEmitter.emit("error", error);
+        const emitter = this.taskEmitters[taskId];
+        updateTaskStatus(failedTaskState, TaskStatus.FAILED, emitter);
+        // Emit error on the task emitter, which forwards it to the agent's listeners
+        emitter.emit("error", error);
       } else {
         // Fallback if task state somehow doesn't exist
         console.error(`Task state ${taskId} not found during error handling.`);
@@ -403,44 +523,310 @@ export class HyperAgent<T extends BrowserProviders = "Local"> {
     params?: TaskParams,
     initPage?: Page,
   ): Promise<TaskOutput> {
-    const taskId = uuidv4();
     const page = initPage || (await this.getCurrentPage());
+    const taskState = this.createTaskState(task, page);
+    try {
+      return await this.runTask(taskState, params);
+    } catch (error) {
+      updateTaskStatus(
+        taskState,
+        TaskStatus.FAILED,
+        this.taskEmitters[taskState.id],
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Resume a task from its last checkpoint in the task store.
+   * The browser context is rehydrated with the checkpointed cookies and storage,
+   * and the agent continues from the last completed step.
+   * @param taskId ID of the task to resume
+   * @param params Optional parameters for the task. Non-serializable params like callbacks and the output schema have to be provided again.
+   * @returns A promise that resolves to the task output
+   */
+  public async resumeTask(
+    taskId: string,
+    params?: TaskParams,
+  ): Promise<TaskOutput> {
+    if (!this.taskStore) {
+      throw new HyperagentError(
+        "Cannot resume a task without a task store configured",
+        400,
+      );
+    }
+    const runningTask = this.tasks[taskId];
+    if (runningTask && !endTaskStatuses.has(runningTask.status)) {
+      throw new HyperagentError(`Task ${taskId} is already running`, 409);
+    }
+    const snapshot = await this.taskStore.load(taskId);
+    if (!snapshot) {
+      throw new HyperagentError(`No checkpoint found for task ${taskId}`, 404);
+    }
+    if (snapshot.status === TaskStatus.COMPLETED) {
+      throw new HyperagentError(`Task ${taskId} is already completed`, 400);
+    }
+
+    if (!this.browser) {
+      await this.initBrowser();
+    }
+    if (!this.context) {
+      throw new HyperagentError("No context found");
+    }
+    if (snapshot.storageState) {
+      await restoreStorageState(this.context, snapshot.storageState);
+    }
+    const page = await this.getCurrentPage();
+    if (snapshot.url && snapshot.url !== "about:blank") {
+      await page.goto(snapshot.url);
+    }
+    for (const variable of Object.values(snapshot.variables)) {
+      this.addVariable(variable);
+    }
+
+    const taskState = this.createTaskState(
+      snapshot.task,
+      page,
+      snapshot.id,
+      snapshot.steps,
+    );
+    taskState.history = snapshot.history;
+    taskState.trace = snapshot.trace;
+    taskState.plan = snapshot.plan;
+    taskState.verification = snapshot.verification;
+    // Params given to resume the task take precedence over the checkpointed ones
+    const resumeParams: TaskParams = { ...snapshot.params, ...params };
+    try {
+      return await this.runTask(taskState, resumeParams);
+    } catch (error) {
+      updateTaskStatus(
+        taskState,
+        TaskStatus.FAILED,
+        this.taskEmitters[taskState.id],
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Re-execute a recorded task trace (see `TaskOutput.trace`) without the LLM deciding the actions.
+   * Elements whose recorded locator no longer matches are found again with the LLM from their description,
+   * these actions are reported in `healedActions`.
+   * @param trace The trace to replay
+   * @param params Optional parameters for the replay
+   * @returns The result of every replayed action
+   */
+  public async replay(
+    trace: TaskTrace,
+    params?: ReplayParams,
+  ): Promise<ReplayResult> {
+    if (trace.version !== 1) {
+      throw new HyperagentError(
+        `Unsupported trace version: ${trace.version}`,
+        400,
+      );
+    }
+    const page = await this.getCurrentPage();
+    return replayTrace(
+      {
+        llm: this.llm,
+        modelCapabilities: this.modelCapabilities,
+        models: this.models,
+        actions: this.getActions(),
+        tokenLimit: this.tokenLimit,
+        variables: this._variables,
+        usage: this.usage,
+        pageSettle: this.config.pageSettle,
+        navigationPolicy: this.navigationPolicy,
+        approvalPolicy: this.config.approvalPolicy,
+        emitter: this.emitter,
+        findElement: (description, page, signal) =>
+          this.findElementIndex(description, page, signal),
+      },
+      page,
+      trace,
+      params,
+    );
+  }
+
+  /**
+   * Get the state of a page as the agent sees it: the interactive elements with their indexes and a highlighted screenshot
+   * @param page The page to describe, defaults to the current page
+   * @returns The DOM state, to be passed to `executeAction`
+   */
+  public async getPageState(page?: Page): Promise<DOMState | null> {
+    const targetPage = page ?? (await this.getCurrentPage());
+    await waitForPageSettled(targetPage, this.config.pageSettle);
+    return retry({
+      func: () => getDomState(targetPage, this.config.domProvider),
+    });
+  }
+
+  /**
+   * Run a single action without the LLM deciding it, e.g. to let another agent drive the browser.
+   * Element indexes refer to the DOM state returned by `getPageState`.
+   * @param action The action to run, `complete` is not supported
+   * @param domState The DOM state the element indexes of the action refer to
+   * @param page The page to run the action on, defaults to the current page
+   * @returns The output of the action
+   */
+  public async executeAction(
+    action: ActionType,
+    domState: DOMState,
+    page?: Page,
+  ): Promise<ActionOutput> {
+    const actionDefinition = this.actions.find(
+      (actionDefinition) => actionDefinition.type === action.type,
+    );
+    if (!actionDefinition) {
+      throw new ActionNotFoundError(action.type);
+    }
+    const targetPage = page ?? (await this.getCurrentPage());
+    const tabs = new TabManager(targetPage);
+    const actionCtx: ActionContext = {
+      domState,
+      page: targetPage,
+      tokenLimit: this.tokenLimit,
+      llm: this.llm,
+      modelCapabilities: this.modelCapabilities,
+      models: this.models,
+      debugDir: undefined,
+      mcpClient: this.mcpClient,
+      variables: this._variables,
+      usage: this.usage,
+      tabs,
+      navigationPolicy: this.navigationPolicy,
+    };
+    const approvalPolicy = this.config.approvalPolicy;
+    let output: ActionOutput;
+    try {
+      const rejectedOutput = approvalPolicy
+        ? await approveAction(
+            approvalPolicy,
+            action,
+            actionCtx,
+            { taskId: "", step: 0, substep: 0 },
+            this.emitter,
+          )
+        : null;
+      output =
+        rejectedOutput ??
+        (await actionDefinition.run(
+          actionCtx,
+          actionDefinition.actionParams.parse(action.params),
+        ));
+      for (const update of output.variableUpdates ?? []) {
+        this.addVariable({
+          ...update,
+          secret: update.secret ?? this._variables[update.key]?.secret,
+        });
+      }
+    } catch (error) {
+      output = {
+        success: false,
+        message: `Action ${action.type} failed: ${error}`,
+      };
+    }
+    const violations =
+      this.navigationPolicy?.drainViolations(targetPage.context()) ?? [];
+    if (violations.length > 0) {
+      output = {
+        success: false,
+        message: `Navigation blocked by the navigation policy: ${violations.map((violation) => violation.reason).join(", ")}`,
+      };
+    }
+    await waitForPageSettled(tabs.currentPage, this.config.pageSettle);
+    // Tab actions and popups move the agent to another tab
+    if (targetPage === this._currentPage) {
+      this._currentPage = tabs.currentPage;
+    }
+    tabs.dispose();
+    return redactSecrets(output, this._variables);
+  }
+
+  /**
+   * Run a task, keeping track of it until it ends so that closing the agent can wait for it
+   */
+  private runTask(
+    taskState: TaskState,
+    params?: TaskParams,
+  ): Promise<TaskOutput> {
+    const run = runAgentTask(
+      this.buildAgentCtx(taskState.id, params),
+      taskState,
+      params,
+    );
+    this.taskRuns[taskState.id] = run;
+    return run.finally(() => {
+      if (this.taskRuns[taskState.id] === run) {
+        delete this.taskRuns[taskState.id];
+      }
+    });
+  }
+
+  /**
+   * Cancel a task that has not ended, aborting its LLM calls and actions in flight
+   * @returns The status of the task
+   */
+  private cancelTask(taskState: TaskState): TaskStatus {
+    if (!endTaskStatuses.has(taskState.status)) {
+      updateTaskStatus(
+        taskState,
+        TaskStatus.CANCELLED,
+        this.taskEmitters[taskState.id],
+      );
+      taskState.abortController?.abort(new Error("Task cancelled"));
+    }
+    return taskState.status;
+  }
+
+  private createTaskState(
+    task: string,
+    page: Page,
+    taskId: string = uuidv4(),
+    steps: TaskState["steps"] = [],
+  ): TaskState {
     const taskState: TaskState = {
       id: taskId,
       task: task,
       status: TaskStatus.PENDING,
       startingPage: page,
-      steps: [],
+      steps: steps,
+      abortController: new AbortController(),
     };
     this.tasks[taskId] = taskState;
+    this.taskEmitters[taskId] = new HyperAgentEventEmitter(this.emitter);
+    return taskState;
+  }
 
+  private buildAgentCtx(
+    taskId: string,
+    params?: TaskParams,
+  ): AgentCtx<"Local" | "Hyperbrowser"> {
     const debugDir = params?.debugDir || `debug/${taskId}`;
     const scriptFile = this.generateScript
       ? this.scriptPath
         ? this.scriptPath
         : `${debugDir}/script.ts`
       : undefined;
-    try {
-      return await runAgentTask(
-        {
-          llm: this.llm,
-          actions: this.getActions(params?.outputSchema),
-          tokenLimit: this.tokenLimit,
-          debug: this.debug,
-          generateScript: this.generateScript,
-          scriptFile: scriptFile,
-          debugDir: debugDir,
-          mcpClient: this.mcpClient,
-          variables: this._variables,
-          agentConfig: this.config,
-        },
-        taskState,
-        params,
-      );
-    } catch (error) {
-      taskState.status = TaskStatus.FAILED;
-      throw error;
-    }
+    return {
+      llm: this.llm,
+      modelCapabilities: this.modelCapabilities,
+      models: this.models,
+      actions: this.getActions(params?.outputSchema, params?.planning),
+      tokenLimit: this.tokenLimit,
+      debug: this.debug,
+      generateScript: this.generateScript,
+      scriptFile: scriptFile,
+      debugDir: debugDir,
+      mcpClient: this.mcpClient,
+      variables: params?.variables ?? this._variables,
+      agentConfig: this.config as HyperAgentConfig<"Local" | "Hyperbrowser">,
+      taskStore: this.taskStore,
+      emitter: this.taskEmitters[taskId],
+      usage: this.usage,
+      navigationPolicy: this.navigationPolicy,
+    };
   }
 
   public async getLocator(
@@ -472,23 +858,64 @@ export class HyperAgent<T extends BrowserProviders = "Local"> {
     taskDescription: string,
     page: Page,
   ): Promise<Locator | null> {
+    const found = await this.findElementIndex(taskDescription, page);
+    if (!found) {
+      return null;
+    }
+
+    // Return the element locator
+    const actionCtx: ActionContext = {
+      domState: found.domState,
+      page,
+      tokenLimit: this.tokenLimit,
+      llm: this.llm,
+      modelCapabilities: this.modelCapabilities,
+      models: this.models,
+      debugDir: undefined,
+      mcpClient: undefined,
+      variables: {},
+      usage: this.usage,
+    };
+    const locator = getLocator(actionCtx, found.index);
+    if (!locator) {
+      return null;
+    }
+    return locator;
+  }
+
+  /**
+   * Find the index of an element matching a description with the LLM
+   * @param signal Aborts the call to the LLM
+   * @returns The DOM state the index refers to and the index, or null if the LLM did not find the element
+   */
+  private async findElementIndex(
+    taskDescription: string,
+    page: Page,
+    signal?: AbortSignal,
+  ): Promise<{ domState: DOMState; index: number } | null> {
     // Get the DOM state
     let domState;
     while (!domState) {
-      domState = await retry({ func: () => getDom(page) });
+      domState = await retry({
+        func: () => getDomState(page, this.config.domProvider),
+      });
       if (!domState) {
-        console.log("No DOM state, waiting 1 second.");
-        await sleep(1000);
+        console.log("No DOM state, waiting for the page to settle.");
+        await waitForPageSettled(page, this.config.pageSettle);
       }
     }
 
-    // Get the screenshot ready with indexes
-    const trimmedScreenshot = await compositeScreenshot(
-      page,
-      domState.screenshot.startsWith("data:image/png;base64,")
-        ? domState.screenshot.slice("data:image/png;base64,".length)
-        : domState.screenshot,
-    );
+    const model = this.models.get("findElement");
+
+    // Get the screenshot ready with indexes, models without vision only get the elements
+    const trimmedScreenshot = model.capabilities.vision
+      ? await compositeScreenshot(
+          page,
+          domState.screenshot.startsWith("data:image/png;base64,")
+            ? domState.screenshot.slice("data:image/png;base64,".length)
+            : domState.screenshot,
+        )
+      : undefined;
 
     // Build Agent Step Messages
     const baseMsgs = [{ role: "system", content: SYSTEM_PROMPT_FIND_ELEMENT }];
@@ -498,14 +925,23 @@ export class HyperAgent<T extends BrowserProviders = "Local"> {
       taskDescription,
       page,
       domState,
-      trimmedScreenshot as string,
-      [],
+      trimmedScreenshot,
+      Object.values(this._variables),
     );
 
     // Invoke LLM
-    const llmStructured = this.llm.withStructuredOutput(ResponseSchema);
     const agentOutput = await retry({
-      func: () => llmStructured.invoke(msgs),
+      func: () =>
+        invokeStructuredOutput({
+          llm: model.llm,
+          schema: ResponseSchema,
+          messages: msgs,
+          usage: this.usage,
+          role: "findElement",
+          capabilities: model.capabilities,
+          signal,
+        }),
+      signal,
     });
 
     // Check if agentOutput is null/undefined or doesn't have the expected structure
@@ -523,21 +959,7 @@ export class HyperAgent<T extends BrowserProviders = "Local"> {
       return null;
     }
 
-    // Return the element locator
-    const actionCtx: ActionContext = {
-      domState,
-      page,
-      tokenLimit: this.tokenLimit,
-      llm: this.llm,
-      debugDir: undefined,
-      mcpClient: undefined,
-      variables: {},
-    };
-    const locator = getLocator(actionCtx, agentOutput.index);
-    if (!locator) {
-      return null;
-    }
-    return locator;
+    return { domState, index: agentOutput.index };
   }
 
   /**
@@ -563,6 +985,43 @@ export class HyperAgent<T extends BrowserProviders = "Local"> {
     }
   }
 
+  private createMCPClient(): MCPClient {
+    return new MCPClient(this.debug, {
+      // Servers can change their tools at runtime, or come back with different tools after a reconnect
+      onActionsChanged: (serverId, actions, previousActions) => {
+        const previousTypes = new Set(
+          previousActions.map((action) => action.type),
+        );
+        this.actions = this.actions.filter(
+          (action) => !previousTypes.has(action.type),
+        );
+        for (const action of actions) {
+          this.registerAction(action).catch((error) => {
+            console.error(
+              `Failed to register tool ${action.type} of MCP server ${serverId}:`,
+              error,
+            );
+          });
+        }
+        this.registerMCPResourceAction();
+      },
+    });
+  }
+
+  /**
+   * Let the agent read MCP resources, once a connected server exposes any
+   */
+  private registerMCPResourceAction(): void {
+    if (
+      this.mcpClient?.getResources().length &&
+      !this.actions.some(
+        (action) => action.type === ReadMCPResourceActionDefinition.type,
+      )
+    ) {
+      this.actions.push(ReadMCPResourceActionDefinition);
+    }
+  }
+
   /**
    * Initialize the MCP client with the given configuration
    * @param config The MCP configuration
@@ -571,7 +1030,7 @@ export class HyperAgent<T extends BrowserProviders = "Local"> {
     if (!config || config.servers.length === 0) {
       return;
     }
-    this.mcpClient = new MCPClient(this.debug);
+    this.mcpClient = this.createMCPClient();
     try {
       for (const serverConfig of config.servers) {
         try {
@@ -580,6 +1039,7 @@ export class HyperAgent<T extends BrowserProviders = "Local"> {
           for (const action of actions) {
             this.registerAction(action);
           }
+          this.registerMCPResourceAction();
           console.log(`MCP server ${serverId} initialized successfully`);
         } catch (error) {
           console.error(
@@ -606,7 +1066,7 @@ export class HyperAgent<T extends BrowserProviders = "Local"> {
     serverConfig: MCPServerConfig,
   ): Promise<string | null> {
     if (!this.mcpClient) {
-      this.mcpClient = new MCPClient(this.debug);
+      this.mcpClient = this.createMCPClient();
     }
 
     try {
@@ -617,6 +1077,7 @@ export class HyperAgent<T extends BrowserProviders = "Local"> {
       for (const action of actions) {
         this.registerAction(action);
       }
+      this.registerMCPResourceAction();
 
       console.log(`Connected to MCP server with ID: ${serverId}`);
       return serverId;
@@ -670,19 +1131,81 @@ export class HyperAgent<T extends BrowserProviders = "Local"> {
 
   /**
    * Get information about all connected MCP servers
-   * @returns Array of server information objects or null if no MCP client is initialized
+   * @returns Array of server information objects, including their connection state, or null if no MCP client is initialized
    */
-  public getMCPServerInfo(): Array<{
-    id: string;
-    toolCount: number;
-    toolNames: string[];
-  }> | null {
+  public getMCPServerInfo(): MCPServerInfo[] | null {
     if (!this.mcpClient) {
       return null;
     }
     return this.mcpClient.getServerInfo();
   }
 
+  /**
+   * Get the resources of all connected MCP servers
+   * @returns Array of resources, or null if no MCP client is initialized
+   */
+  public getMCPResources(): MCPResourceInfo[] | null {
+    if (!this.mcpClient) {
+      return null;
+    }
+    return this.mcpClient.getResources();
+  }
+
+  /**
+   * Get the prompts of all connected MCP servers, usable as task templates with `executeMcpPrompt`
+   * @returns Array of prompts, or null if no MCP client is initialized
+   */
+  public getMCPPrompts(): MCPPromptInfo[] | null {
+    if (!this.mcpClient) {
+      return null;
+    }
+    return this.mcpClient.getPrompts();
+  }
+
+  /**
+   * Execute a task written by a prompt of an MCP server
+   * @param serverId ID of the server exposing the prompt
+   * @param name Name of the prompt
+   * @param args Arguments of the prompt
+   * @param params Optional parameters for the task
+   * @param initPage Optional page to use for the task
+   * @returns A promise that resolves to the task output
+   */
+  public async executeMcpPrompt(
+    serverId: string,
+    name: string,
+    args: Record<string, string> = {},
+    params?: TaskParams,
+    initPage?: Page,
+  ): Promise<TaskOutput> {
+    if (!this.mcpClient) {
+      throw new HyperagentError("No MCP client is initialized", 400);
+    }
+    const prompt = await this.mcpClient.getPrompt(serverId, name, args);
+    const task = prompt.messages
+      .map((message) => {
+        const text =
+          message.content.type === "text"
+            ? message.content.text
+            : message.content.type === "resource" &&
+                "text" in message.content.resource
+              ? String(message.content.resource.text)
+              : "";
+        return message.role === "assistant" && text
+          ? `Assistant: ${text}`
+          : text;
+      })
+      .filter(Boolean)
+      .join("\n\n");
+    if (!task) {
+      throw new HyperagentError(
+        `Prompt ${name} of MCP server ${serverId} has no text`,
+        400,
+      );
+    }
+    return this.executeTask(task, params, initPage);
+  }
+
   /**
    * Pretty print an action
    * @param action The action to print
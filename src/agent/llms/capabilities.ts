@@ -0,0 +1,158 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { ModelCapabilities } from "@/types/agent/models";
+import { findModelEntry, getModelName } from "./usage";
+
+/**
+ * Capabilities of known models, keyed by model name. Keys also match model versions they are a prefix of.
+ */
+export const DEFAULT_MODEL_CAPABILITIES: Record<string, ModelCapabilities> = {
+  // OpenAI
+  "gpt-4o": {
+    tools: true,
+    jsonMode: true,
+    vision: true,
+    maxContextTokens: 128000,
+  },
+  "gpt-4.1": {
+    tools: true,
+    jsonMode: true,
+    vision: true,
+    maxContextTokens: 1047576,
+  },
+  "gpt-4-turbo": {
+    tools: true,
+    jsonMode: true,
+    vision: true,
+    maxContextTokens: 128000,
+  },
+  "gpt-3.5-turbo": {
+    tools: true,
+    jsonMode: true,
+    vision: false,
+    maxContextTokens: 16385,
+  },
+  o1: { tools: true, jsonMode: true, vision: true, maxContextTokens: 200000 },
+  o3: { tools: true, jsonMode: true, vision: true, maxContextTokens: 200000 },
+  "o4-mini": {
+    tools: true,
+    jsonMode: true,
+    vision: true,
+    maxContextTokens: 200000,
+  },
+  // Anthropic
+  "claude-": {
+    tools: true,
+    jsonMode: false,
+    vision: true,
+    maxContextTokens: 200000,
+  },
+  // Google
+  "gemini-": {
+    tools: true,
+    jsonMode: true,
+    vision: true,
+    maxContextTokens: 1048576,
+  },
+  // Open models, as named by Ollama
+  llama3: {
+    tools: false,
+    jsonMode: true,
+    vision: false,
+    maxContextTokens: 8192,
+  },
+  "llama3.1": {
+    tools: true,
+    jsonMode: true,
+    vision: false,
+    maxContextTokens: 128000,
+  },
+  "llama3.2": {
+    tools: true,
+    jsonMode: true,
+    vision: false,
+    maxContextTokens: 128000,
+  },
+  "llama3.2-vision": {
+    tools: false,
+    jsonMode: true,
+    vision: true,
+    maxContextTokens: 128000,
+  },
+  "llama3.3": {
+    tools: true,
+    jsonMode: true,
+    vision: false,
+    maxContextTokens: 128000,
+  },
+  llava: { tools: false, jsonMode: true, vision: true, maxContextTokens: 4096 },
+  "qwen2.5": {
+    tools: true,
+    jsonMode: true,
+    vision: false,
+    maxContextTokens: 32768,
+  },
+  "qwen2.5vl": {
+    tools: false,
+    jsonMode: true,
+    vision: true,
+    maxContextTokens: 128000,
+  },
+  gemma3: {
+    tools: false,
+    jsonMode: true,
+    vision: true,
+    maxContextTokens: 128000,
+  },
+  mistral: {
+    tools: true,
+    jsonMode: true,
+    vision: false,
+    maxContextTokens: 32768,
+  },
+  "deepseek-r1": {
+    tools: false,
+    jsonMode: true,
+    vision: false,
+    maxContextTokens: 128000,
+  },
+  phi4: {
+    tools: false,
+    jsonMode: true,
+    vision: false,
+    maxContextTokens: 16384,
+  },
+};
+
+// Fallbacks for unknown models, keyed by the LangChain class of the model
+const PROVIDER_CAPABILITIES: Record<string, ModelCapabilities> = {
+  ChatOpenAI: { tools: true, jsonMode: true, vision: true },
+  ChatAnthropic: { tools: true, jsonMode: false, vision: true },
+  ChatGoogleGenerativeAI: { tools: true, jsonMode: true, vision: true },
+  ChatOllama: { tools: false, jsonMode: true, vision: false },
+};
+
+// Unknown models of unknown providers are assumed to be capable, as before the registry existed
+const DEFAULT_CAPABILITIES: ModelCapabilities = {
+  tools: true,
+  jsonMode: false,
+  vision: true,
+};
+
+/**
+ * Get the capabilities of a model
+ * @param llm The chat model
+ * @param overrides Capabilities keyed by model name (or LangChain class name), taking precedence over the registry
+ */
+export const getModelCapabilities = (
+  llm: BaseChatModel,
+  overrides: Record<string, Partial<ModelCapabilities>> = {},
+): ModelCapabilities => {
+  const model = getModelName(llm);
+  const provider = llm.getName();
+  return {
+    ...(PROVIDER_CAPABILITIES[provider] ?? DEFAULT_CAPABILITIES),
+    ...findModelEntry(DEFAULT_MODEL_CAPABILITIES, model),
+    ...overrides[provider],
+    ...findModelEntry(overrides, model),
+  };
+};
@@ -0,0 +1,81 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import {
+  ModelCapabilities,
+  ModelRole,
+  ModelRoutingConfig,
+} from "@/types/agent/models";
+import { getModelCapabilities } from "./capabilities";
+
+const DEFAULT_ESCALATION_AFTER_FAILURES = 2;
+
+export interface RoutedModel {
+  llm: BaseChatModel;
+  capabilities: ModelCapabilities;
+}
+
+/**
+ * Picks the model of every LLM call from the routing config. Roles without a model use the default model of the agent.
+ */
+export class ModelRouter {
+  private capabilities = new WeakMap<BaseChatModel, ModelCapabilities>();
+
+  /**
+   * @param getDefaultModel Returns the default model, read on every call since the model of the agent can be replaced
+   * @param config The routing config
+   * @param capabilityOverrides Capabilities keyed by model name, see `HyperAgentConfig.modelCapabilities`
+   */
+  constructor(
+    private getDefaultModel: () => BaseChatModel,
+    private config: ModelRoutingConfig = {},
+    private capabilityOverrides?: Record<string, Partial<ModelCapabilities>>,
+  ) {}
+
+  /**
+   * Get the model of a role
+   */
+  get(role: ModelRole): RoutedModel {
+    return this.resolve(this.config.models?.[role] ?? this.getDefaultModel());
+  }
+
+  /**
+   * Get the model to run the next step on after failed actions
+   * @param consecutiveFailures Number of consecutive failed action outputs
+   * @returns The escalation model, or null if steps stay on the agent model
+   */
+  getEscalation(consecutiveFailures: number): RoutedModel | null {
+    const escalation = this.config.escalation;
+    if (
+      !escalation ||
+      consecutiveFailures <
+        (escalation.afterFailures ?? DEFAULT_ESCALATION_AFTER_FAILURES)
+    ) {
+      return null;
+    }
+    return this.resolve(escalation.llm);
+  }
+
+  private resolve(llm: BaseChatModel): RoutedModel {
+    let capabilities = this.capabilities.get(llm);
+    if (!capabilities) {
+      capabilities = getModelCapabilities(llm, this.capabilityOverrides);
+      this.capabilities.set(llm, capabilities);
+    }
+    return { llm, capabilities };
+  }
+}
+
+/**
+ * Get the model of a role from a context, falling back to the model of the context when it has no router
+ */
+export const routeModel = (
+  ctx: {
+    llm: BaseChatModel;
+    modelCapabilities?: ModelCapabilities;
+    models?: ModelRouter;
+  },
+  role: ModelRole,
+): RoutedModel =>
+  ctx.models?.get(role) ?? {
+    llm: ctx.llm,
+    capabilities: ctx.modelCapabilities ?? getModelCapabilities(ctx.llm),
+  };
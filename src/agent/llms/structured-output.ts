@@ -1,11 +1,32 @@
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { BaseMessage, BaseMessageLike } from "@langchain/core/messages";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ModelCapabilities } from "@/types/agent/models";
+import { getModelCapabilities } from "./capabilities";
+import { UsageTracker } from "./usage";
+import { raceAbort } from "@/utils/abort";
+
+type StructuredOutputMethod = ReturnType<typeof getStructuredOutputMethod>;
+
+// Number of times a model is asked to fix an answer that does not match the schema
+const MAX_REPAIR_ATTEMPTS = 2;
 
 /**
  * Determines the appropriate structured output method based on the LLM type
  * @param llm The language model instance
- * @returns The structured output method to use ("functionCalling" or "jsonMode")
+ * @param capabilities The capabilities of the model, looked up in the registry by default
+ * @returns The structured output method to use ("functionCalling", the provider default, or "jsonRepair" for models
+ * without tool calling)
  */
-export function getStructuredOutputMethod(llm: BaseChatModel) {
+export function getStructuredOutputMethod(
+  llm: BaseChatModel,
+  capabilities: ModelCapabilities = getModelCapabilities(llm),
+) {
+  // Models without tool calling answer with JSON, parsed and validated by HyperAgent
+  if (!capabilities.tools) {
+    return "jsonRepair" as const;
+  }
   const modelName = llm.getName();
   if (modelName === "ChatAnthropic") {
     return "functionCalling";
@@ -16,3 +37,160 @@ export function getStructuredOutputMethod(llm: BaseChatModel) {
   // Default to functionCalling for other models
   return "functionCalling";
 }
+
+/**
+ * Invoke a model with structured output and record the token usage of the call
+ * @param params.llm The language model instance
+ * @param params.schema The zod schema the output has to conform to
+ * @param params.messages The messages to send to the model
+ * @param params.method The structured output method, see getStructuredOutputMethod
+ * @param params.usage Optional tracker that records the usage of the call
+ * @param params.role The role of the call, used to break down usage (agent, findElement, extract...)
+ * @param params.capabilities The capabilities of the model, looked up in the registry by default
+ * @param params.signal Aborts the call to the model
+ * @returns The parsed output of the model
+ */
+export async function invokeStructuredOutput<T extends z.ZodTypeAny>(params: {
+  llm: BaseChatModel;
+  schema: T;
+  messages: BaseMessageLike[];
+  method?: StructuredOutputMethod;
+  usage?: UsageTracker;
+  role: string;
+  capabilities?: ModelCapabilities;
+  signal?: AbortSignal;
+}): Promise<z.infer<T>> {
+  const { llm, schema, messages, usage, role, signal } = params;
+  const capabilities = params.capabilities ?? getModelCapabilities(llm);
+  const { method } = params;
+  if (method === "jsonRepair" || !capabilities.tools) {
+    return invokeWithJsonRepair({
+      llm,
+      schema,
+      messages,
+      usage,
+      role,
+      jsonMode: capabilities.jsonMode,
+      signal,
+    });
+  }
+  const structured = llm.withStructuredOutput<z.infer<T>>(schema, {
+    method,
+    includeRaw: true,
+  });
+  // Providers that ignore the signal stop being waited for once it aborts
+  const { raw, parsed } = await raceAbort(
+    structured.invoke(messages, { signal }),
+    signal,
+  );
+  usage?.recordMessage(raw, { llm, role, input: messages });
+  if (parsed === undefined || parsed === null) {
+    // Surface parsing failures as errors, so callers can retry the call
+    throw new Error(`Failed to parse structured output of ${role} call`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse the JSON answer of a model. Tolerates reasoning blocks, code fences, text around the JSON object and
+ * trailing commas.
+ * @returns The output validated against the schema, or a description of what is wrong with the answer
+ */
+export const parseJsonOutput = <T extends z.ZodTypeAny>(
+  text: string,
+  schema: T,
+): { success: true; data: z.infer<T> } | { success: false; error: string } => {
+  const answer = text
+    .replace(/<think>[\s\S]*?<\/think>/g, "")
+    .replace(/```(?:json)?/gi, "");
+  const start = answer.indexOf("{");
+  const end = answer.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    return {
+      success: false,
+      error: "the answer does not contain a JSON object",
+    };
+  }
+  const json = answer.slice(start, end + 1);
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    try {
+      value = JSON.parse(json.replace(/,\s*([}\]])/g, "$1"));
+    } catch (error) {
+      return {
+        success: false,
+        error: `the answer is not valid JSON (${error})`,
+      };
+    }
+  }
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error.issues
+        .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+        .join("; "),
+    };
+  }
+  return { success: true, data: result.data };
+};
+
+/**
+ * Structured output for models without tool calling: the schema is given in the prompt, the answer is parsed and
+ * validated here, and the model is asked to fix answers that do not match the schema
+ */
+async function invokeWithJsonRepair<T extends z.ZodTypeAny>(params: {
+  llm: BaseChatModel;
+  schema: T;
+  messages: BaseMessageLike[];
+  usage?: UsageTracker;
+  role: string;
+  jsonMode: boolean;
+  signal?: AbortSignal;
+}): Promise<z.infer<T>> {
+  const { llm, schema, usage, role, jsonMode, signal } = params;
+  let messages: BaseMessageLike[] = [
+    ...params.messages,
+    {
+      role: "user",
+      content: `Answer only with a JSON object matching this JSON schema, without any other text:\n${JSON.stringify(
+        zodToJsonSchema(schema),
+      )}`,
+    },
+  ];
+  let error = "";
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    // JSON mode only constrains the answer to be JSON, it is still validated here
+    const raw: BaseMessage = await raceAbort(
+      jsonMode
+        ? llm
+            .withStructuredOutput(schema, {
+              method: "jsonMode",
+              includeRaw: true,
+            })
+            .invoke(messages, { signal })
+            .then(({ raw }) => raw)
+        : llm.invoke(messages, { signal }),
+      signal,
+    );
+    usage?.recordMessage(raw, { llm, role, input: messages });
+    const result = parseJsonOutput(raw.text, schema);
+    if (result.success) {
+      return result.data;
+    }
+    error = result.error;
+    messages = [
+      ...messages,
+      raw,
+      {
+        role: "user",
+        content: `Your answer is invalid: ${error}\nAnswer again with only the corrected JSON object.`,
+      },
+    ];
+  }
+  throw new Error(
+    `Failed to parse structured output of ${role} call: ${error}`,
+  );
+}
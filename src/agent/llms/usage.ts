@@ -0,0 +1,198 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import {
+  AIMessage,
+  BaseMessage,
+  BaseMessageLike,
+} from "@langchain/core/messages";
+import {
+  ModelPricing,
+  TokenUsage,
+  UsageRecord,
+  UsageReport,
+} from "@/types/agent/usage";
+
+const PNG_DATA_URL_PREFIX = "data:image/png;base64,";
+
+export const emptyUsage = (): TokenUsage => ({
+  promptTokens: 0,
+  completionTokens: 0,
+  imageTokens: 0,
+  totalTokens: 0,
+  costUsd: 0,
+});
+
+export const addUsage = (target: TokenUsage, usage: TokenUsage) => {
+  target.promptTokens += usage.promptTokens;
+  target.completionTokens += usage.completionTokens;
+  target.imageTokens += usage.imageTokens;
+  target.totalTokens += usage.totalTokens;
+  target.costUsd += usage.costUsd;
+};
+
+/**
+ * Accumulates the token usage of LLM calls. Trackers can be nested (step -> task -> agent),
+ * every record is forwarded to the parent tracker.
+ */
+export class UsageTracker {
+  private usage: UsageReport = { ...emptyUsage(), byModel: {}, byRole: {} };
+  private pricing: Record<string, ModelPricing>;
+  private parent?: UsageTracker;
+
+  constructor(params?: {
+    pricing?: Record<string, ModelPricing>;
+    parent?: UsageTracker;
+  }) {
+    this.parent = params?.parent;
+    this.pricing = params?.pricing ?? this.parent?.pricing ?? {};
+  }
+
+  record(record: UsageRecord): void {
+    const usage: TokenUsage = {
+      promptTokens: record.promptTokens,
+      completionTokens: record.completionTokens,
+      imageTokens: record.imageTokens ?? 0,
+      totalTokens: record.promptTokens + record.completionTokens,
+      costUsd: this.getCost(record),
+    };
+    addUsage(this.usage, usage);
+    this.usage.byModel[record.model] ??= emptyUsage();
+    addUsage(this.usage.byModel[record.model], usage);
+    this.usage.byRole[record.role] ??= emptyUsage();
+    addUsage(this.usage.byRole[record.role], usage);
+    this.parent?.record(record);
+  }
+
+  /**
+   * Record the usage reported on a LangChain message
+   * @param message The raw message returned by the model
+   * @param params The model that produced the message, the role of the call and the messages that were sent
+   */
+  recordMessage(
+    message: BaseMessage,
+    params: { llm: BaseChatModel; role: string; input?: BaseMessageLike[] },
+  ): void {
+    const metadata = (message as AIMessage).usage_metadata;
+    if (!metadata) {
+      return;
+    }
+    this.record({
+      model: getModelName(params.llm, message),
+      role: params.role,
+      promptTokens: metadata.input_tokens,
+      completionTokens: metadata.output_tokens,
+      imageTokens: params.input ? estimateImageTokens(params.input) : 0,
+    });
+  }
+
+  getUsage(): UsageReport {
+    return structuredClone(this.usage);
+  }
+
+  private getCost(record: UsageRecord): number {
+    const pricing = findModelEntry(this.pricing, record.model);
+    if (!pricing) {
+      return 0;
+    }
+    return (
+      (record.promptTokens * pricing.promptPer1MTokens +
+        record.completionTokens * pricing.completionPer1MTokens) /
+      1_000_000
+    );
+  }
+}
+
+/**
+ * Find the entry of a model in a table keyed by model name (pricing, capabilities), falling back to the longest
+ * matching prefix so that "gpt-4o" also matches "gpt-4o-2024-08-06"
+ */
+export const findModelEntry = <T>(
+  table: Record<string, T>,
+  model: string,
+): T | undefined => {
+  if (table[model]) {
+    return table[model];
+  }
+  const prefix = Object.keys(table)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : undefined;
+};
+
+/**
+ * Get the name of the model behind a chat model instance
+ * @param llm The chat model
+ * @param message Optional response of the model, providers report the exact model version in its metadata
+ */
+export const getModelName = (
+  llm: BaseChatModel,
+  message?: BaseMessage,
+): string => {
+  const metadata = message?.response_metadata ?? {};
+  const fromResponse = metadata.model_name ?? metadata.model;
+  if (typeof fromResponse === "string" && fromResponse.length > 0) {
+    return fromResponse;
+  }
+  const configured = (llm as unknown as { model?: string; modelName?: string })
+    .model;
+  return configured ?? llm.getName();
+};
+
+/**
+ * Estimate the tokens spent on the PNG images of a prompt, using the tile based formula of the OpenAI vision models
+ * (85 base tokens plus 170 tokens per 512px tile, after scaling the image to fit 2048px and 768px on the short side).
+ * @param messages The messages sent to the model
+ */
+export const estimateImageTokens = (messages: BaseMessageLike[]): number => {
+  let tokens = 0;
+  for (const message of messages) {
+    const content =
+      typeof message === "object" && message !== null && "content" in message
+        ? message.content
+        : undefined;
+    if (!Array.isArray(content)) {
+      continue;
+    }
+    for (const part of content) {
+      if (part?.type !== "image_url") {
+        continue;
+      }
+      const url =
+        typeof part.image_url === "string"
+          ? part.image_url
+          : part.image_url?.url;
+      const size = typeof url === "string" ? getPngSize(url) : null;
+      if (size) {
+        tokens += getImageTokens(size.width, size.height);
+      }
+    }
+  }
+  return tokens;
+};
+
+const getPngSize = (
+  dataUrl: string,
+): { width: number; height: number } | null => {
+  if (!dataUrl.startsWith(PNG_DATA_URL_PREFIX)) {
+    return null;
+  }
+  // The IHDR chunk holds the dimensions at bytes 16-24, which only needs the first 32 base64 characters
+  const header = Buffer.from(
+    dataUrl.slice(PNG_DATA_URL_PREFIX.length, PNG_DATA_URL_PREFIX.length + 32),
+    "base64",
+  );
+  if (header.length < 24) {
+    return null;
+  }
+  return { width: header.readUInt32BE(16), height: header.readUInt32BE(20) };
+};
+
+const getImageTokens = (width: number, height: number): number => {
+  let scale = Math.min(1, 2048 / Math.max(width, height));
+  let scaledWidth = width * scale;
+  let scaledHeight = height * scale;
+  scale = Math.min(1, 768 / Math.min(scaledWidth, scaledHeight));
+  scaledWidth *= scale;
+  scaledHeight *= scale;
+  const tiles = Math.ceil(scaledWidth / 512) * Math.ceil(scaledHeight / 512);
+  return 85 + 170 * tiles;
+};
@@ -2,25 +2,376 @@ import { z } from "zod";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
-import { Tool } from "@modelcontextprotocol/sdk/types";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import {
+  CallToolResult,
+  GetPromptResult,
+  Prompt,
+  PromptListChangedNotificationSchema,
+  Resource,
+  ResourceListChangedNotificationSchema,
+  Tool,
+  ToolListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import { MCPServerConfig } from "@/types/config";
 import { ActionContext, ActionOutput, AgentActionDefinition } from "@/types";
+import { jsonSchemaToZodObject, JsonSchema } from "@/utils/json-schema-to-zod";
 import { v4 as uuidv4 } from "uuid";
 
+export type MCPConnectionState =
+  | "connected"
+  | "reconnecting"
+  | "failed"
+  | "disconnected";
+
+export interface MCPServerInfo {
+  id: string;
+  toolCount: number;
+  toolNames: string[];
+  state: MCPConnectionState;
+  reconnectAttempts: number;
+  lastError?: string;
+  /**
+   * Time of the last successful health check
+   */
+  lastPingAt?: Date;
+  resourceCount: number;
+  promptNames: string[];
+}
+
+export interface MCPResourceInfo {
+  serverId: string;
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPResourceContent {
+  uri: string;
+  mimeType?: string;
+  /**
+   * Text of the resource. Binary contents are replaced by a placeholder
+   */
+  text: string;
+}
+
+export interface MCPPromptInfo {
+  serverId: string;
+  name: string;
+  description?: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
 interface ServerConnection {
   id: string;
   config: MCPServerConfig;
   client: Client;
-  transport: StdioClientTransport | SSEClientTransport;
+  transport: MCPTransport;
   tools: Map<string, Tool>;
   actions: AgentActionDefinition[];
+  resources: Resource[];
+  prompts: Prompt[];
+  state: MCPConnectionState;
+  reconnectAttempts: number;
+  lastError?: string;
+  lastPingAt?: Date;
+  healthCheckTimer?: NodeJS.Timeout;
+  reconnectTimer?: NodeJS.Timeout;
 }
 
+type MCPTransport =
+  | StdioClientTransport
+  | SSEClientTransport
+  | StreamableHTTPClientTransport;
+
+export interface MCPClientOptions {
+  /**
+   * Called when the tool list of a server changed and its actions were rebuilt
+   */
+  onActionsChanged?: (
+    serverId: string,
+    actions: AgentActionDefinition[],
+    previousActions: AgentActionDefinition[],
+  ) => void;
+}
+
+const DEFAULT_HEALTH_CHECK_INTERVAL_MS = 30_000;
+const DEFAULT_HEALTH_CHECK_TIMEOUT_MS = 10_000;
+const DEFAULT_RECONNECT_MAX_RETRIES = 5;
+const DEFAULT_RECONNECT_INITIAL_DELAY_MS = 1_000;
+const DEFAULT_RECONNECT_MAX_DELAY_MS = 30_000;
+
+/**
+ * Type of the action calling a tool. Prefixed with the server ID, so that servers can expose tools with the same name.
+ */
+export const getMCPActionType = (serverId: string, toolName: string): string =>
+  `${serverId}__${toolName}`.replace(/[^a-zA-Z0-9_-]/g, "_");
+
+const toolInputToZod = (tool: Tool): z.AnyZodObject => {
+  try {
+    return jsonSchemaToZodObject(tool.inputSchema as JsonSchema);
+  } catch {
+    // Tools without an object schema take no arguments
+    return z.object({});
+  }
+};
+
+const formatContent = (content: CallToolResult["content"][number]): string => {
+  switch (content.type) {
+    case "text":
+      return content.text;
+    case "image":
+    case "audio":
+      return `[${content.type} ${content.mimeType}]`;
+    case "resource":
+      return "text" in content.resource
+        ? `${content.resource.uri}:\n${content.resource.text}`
+        : `[resource ${content.resource.uri}]`;
+    default:
+      return JSON.stringify(content);
+  }
+};
+
+const toActionOutput = (
+  toolName: string,
+  result: CallToolResult | { toolResult: unknown },
+): ActionOutput => {
+  // Servers on older protocol versions return a single toolResult
+  if ("toolResult" in result) {
+    return {
+      success: true,
+      message: `MCP tool ${toolName} succeeded: ${JSON.stringify(result.toolResult)}`,
+    };
+  }
+  const text = result.content.map(formatContent).join("\n");
+  if (result.isError) {
+    return {
+      success: false,
+      message: `MCP tool ${toolName} failed: ${text || "no error message"}`,
+    };
+  }
+  return {
+    success: true,
+    message: `MCP tool ${toolName} succeeded${text ? `:\n${text}` : ""}`,
+    extract: result.structuredContent,
+  };
+};
+
 class MCPClient {
   private servers: Map<string, ServerConnection> = new Map();
   private debug: boolean;
-  constructor(debug: boolean = false) {
+  private options: MCPClientOptions;
+  constructor(debug: boolean = false, options: MCPClientOptions = {}) {
     this.debug = debug;
+    this.options = options;
+  }
+
+  private createTransport(serverConfig: MCPServerConfig): MCPTransport {
+    const connectionType = serverConfig?.connectionType || "stdio";
+
+    if (connectionType === "http") {
+      if (!serverConfig.httpUrl) {
+        throw new Error("HTTP URL is required for HTTP connection type");
+      }
+
+      if (this.debug) {
+        console.log(
+          `Establishing streamable HTTP connection to ${serverConfig.httpUrl}...`,
+        );
+      }
+
+      return new StreamableHTTPClientTransport(
+        new URL(serverConfig.httpUrl),
+        serverConfig.httpHeaders
+          ? {
+              requestInit: {
+                headers: serverConfig.httpHeaders,
+              },
+            }
+          : undefined,
+      );
+    }
+
+    if (connectionType === "sse") {
+      if (!serverConfig.sseUrl) {
+        throw new Error("SSE URL is required for SSE connection type");
+      }
+
+      if (this.debug) {
+        console.log(`Establishing SSE connection to ${serverConfig.sseUrl}...`);
+      }
+
+      return new SSEClientTransport(
+        new URL(serverConfig.sseUrl),
+        serverConfig.sseHeaders
+          ? {
+              requestInit: {
+                headers: serverConfig.sseHeaders,
+              },
+            }
+          : undefined,
+      );
+    }
+
+    if (!serverConfig.command) {
+      throw new Error("Command is required for stdio connection type");
+    }
+
+    return new StdioClientTransport({
+      command: serverConfig.command,
+      args: serverConfig.args,
+      env: {
+        ...((process.env ?? {}) as Record<string, string>),
+        ...(serverConfig.env ?? {}),
+      },
+      // Pipe stdin/stdout, ignore stderr
+      stderr: this.debug ? "inherit" : "ignore",
+    });
+  }
+
+  private filterTools(serverConfig: MCPServerConfig, tools: Tool[]): Tool[] {
+    return tools.filter((tool) => {
+      if (
+        serverConfig.includeTools &&
+        !serverConfig.includeTools.includes(tool.name)
+      ) {
+        return false;
+      }
+      if (
+        serverConfig.excludeTools &&
+        serverConfig.excludeTools.includes(tool.name)
+      ) {
+        return false;
+      }
+      return true;
+    });
+  }
+
+  private createAction(serverId: string, tool: Tool): AgentActionDefinition {
+    return {
+      type: getMCPActionType(serverId, tool.name),
+      actionParams: toolInputToZod(tool).describe(
+        tool.description ?? `MCP tool ${tool.name}`,
+      ),
+      run: async (
+        ctx: ActionContext,
+        params: Record<string, unknown>,
+      ): Promise<ActionOutput> => {
+        if (!ctx.mcpClient) {
+          throw new Error(
+            "MCP client not available. Please ensure an MCP server is connected.",
+          );
+        }
+
+        const result = await ctx.mcpClient.executeTool(
+          tool.name,
+          params,
+          serverId,
+        );
+        return toActionOutput(tool.name, result);
+      },
+    };
+  }
+
+  /**
+   * Open a client session to a server and load its tools
+   * @param getConnection Returns the connection the session belongs to, once it is stored
+   */
+  private async openSession(
+    serverId: string,
+    serverConfig: MCPServerConfig,
+    getConnection: () => ServerConnection | undefined,
+  ): Promise<
+    Pick<
+      ServerConnection,
+      "client" | "transport" | "tools" | "actions" | "resources" | "prompts"
+    >
+  > {
+    const transport = this.createTransport(serverConfig);
+    const client = new Client({
+      name: `hyperagent-mcp-client-${serverId}`,
+      version: "1.0.0",
+    });
+    await client.connect(transport);
+
+    // Set after connecting, the client takes over the handlers of the transport
+    client.onerror = (error) => {
+      const connection = getConnection();
+      if (connection) {
+        connection.lastError = error.message;
+      }
+      if (this.debug) {
+        console.error(`MCP server ${serverId} error: ${error.message}`);
+      }
+    };
+    client.onclose = () => {
+      const connection = getConnection();
+      // Only the current session of the connection can trigger a reconnect
+      if (connection?.client === client) {
+        this.handleConnectionLost(connection);
+      }
+    };
+    client.setNotificationHandler(
+      ToolListChangedNotificationSchema,
+      async () => {
+        await this.refreshTools(serverId);
+      },
+    );
+
+    client.setNotificationHandler(
+      ResourceListChangedNotificationSchema,
+      async () => {
+        const connection = getConnection();
+        if (connection?.client === client) {
+          connection.resources = await this.listServerResources(client);
+        }
+      },
+    );
+    client.setNotificationHandler(
+      PromptListChangedNotificationSchema,
+      async () => {
+        const connection = getConnection();
+        if (connection?.client === client) {
+          connection.prompts = await this.listServerPrompts(client);
+        }
+      },
+    );
+
+    const tools = this.filterTools(
+      serverConfig,
+      await this.listServerTools(client),
+    );
+    return {
+      client,
+      transport,
+      tools: new Map(tools.map((tool) => [tool.name, tool])),
+      actions: tools.map((tool) => this.createAction(serverId, tool)),
+      resources: await this.listServerResources(client),
+      prompts: await this.listServerPrompts(client),
+    };
+  }
+
+  private async listServerTools(client: Client): Promise<Tool[]> {
+    // Servers can expose only resources or prompts
+    if (!client.getServerCapabilities()?.tools) {
+      return [];
+    }
+    return (await client.listTools()).tools;
+  }
+
+  private async listServerResources(client: Client): Promise<Resource[]> {
+    if (!client.getServerCapabilities()?.resources) {
+      return [];
+    }
+    return (await client.listResources()).resources;
+  }
+
+  private async listServerPrompts(client: Client): Promise<Prompt[]> {
+    if (!client.getServerCapabilities()?.prompts) {
+      return [];
+    }
+    return (await client.listPrompts()).prompts;
   }
 
   /**
@@ -35,139 +386,195 @@ class MCPClient {
       // Generate or use provided server ID
       const serverId = serverConfig.id || uuidv4();
 
-      // Create transport for this server
-      let transport;
-      const connectionType = serverConfig?.connectionType || "stdio";
+      const session = await this.openSession(serverId, serverConfig, () =>
+        this.servers.get(serverId),
+      );
 
-      if (connectionType === "sse") {
-        if (!serverConfig.sseUrl) {
-          throw new Error("SSE URL is required for SSE connection type");
-        }
+      // Store server connection
+      const connection: ServerConnection = {
+        id: serverId,
+        config: serverConfig,
+        ...session,
+        state: "connected",
+        reconnectAttempts: 0,
+      };
+      this.servers.set(serverId, connection);
+      this.startHealthCheck(connection);
+      if (this.debug) {
+        console.log(`Connected to MCP server with ID: ${serverId}`);
+        console.log("Added tools:", Array.from(connection.tools.keys()));
+      }
+      return { serverId, actions: connection.actions };
+    } catch (e) {
+      console.error("Failed to connect to MCP server: ", e);
+      throw e;
+    }
+  }
 
-        if (this.debug) {
-          console.log(
-            `Establishing SSE connection to ${serverConfig.sseUrl}...`,
-          );
-        }
+  private startHealthCheck(connection: ServerConnection): void {
+    const interval =
+      connection.config.healthCheckIntervalMs ??
+      DEFAULT_HEALTH_CHECK_INTERVAL_MS;
+    if (interval <= 0) {
+      return;
+    }
+    connection.healthCheckTimer = setInterval(
+      () => this.checkHealth(connection),
+      interval,
+    );
+    // Health checks alone should not keep the process alive
+    connection.healthCheckTimer.unref();
+  }
 
-        transport = new SSEClientTransport(
-          new URL(serverConfig.sseUrl),
-          serverConfig.sseHeaders
-            ? {
-                requestInit: {
-                  headers: serverConfig.sseHeaders,
-                },
-              }
-            : undefined,
+  /**
+   * Ping the server and refresh its tools. A server that does not answer is reconnected.
+   */
+  private async checkHealth(connection: ServerConnection): Promise<void> {
+    if (connection.state !== "connected") {
+      return;
+    }
+    const client = connection.client;
+    try {
+      await client.ping({
+        timeout:
+          connection.config.healthCheckTimeoutMs ??
+          DEFAULT_HEALTH_CHECK_TIMEOUT_MS,
+      });
+      connection.lastPingAt = new Date();
+    } catch (error) {
+      if (connection.client !== client || connection.state !== "connected") {
+        return;
+      }
+      connection.lastError = `Health check failed: ${error}`;
+      if (this.debug) {
+        console.error(
+          `MCP server ${connection.id} health check failed:`,
+          error,
         );
+      }
+      // Closing the session triggers the reconnect through onclose
+      await client.close().catch(() => {});
+      return;
+    }
+    await this.refreshTools(connection.id);
+  }
 
-        transport.onerror = (error: any) => {
-          console.error(`SSE error: ${error.message}`);
-        };
-      } else {
-        if (!serverConfig.command) {
-          throw new Error("Command is required for stdio connection type");
-        }
+  private handleConnectionLost(connection: ServerConnection): void {
+    if (
+      connection.state === "disconnected" ||
+      connection.state === "reconnecting" ||
+      !this.servers.has(connection.id)
+    ) {
+      return;
+    }
+    connection.state = "reconnecting";
+    if (this.debug) {
+      console.log(`Lost connection to MCP server ${connection.id}`);
+    }
+    this.scheduleReconnect(connection);
+  }
 
-        transport = new StdioClientTransport({
-          command: serverConfig.command,
-          args: serverConfig.args,
-          env: {
-            ...((process.env ?? {}) as Record<string, string>),
-            ...(serverConfig.env ?? {}),
-          },
-          // Pipe stdin/stdout, ignore stderr
-          stderr: this.debug ? "inherit" : "ignore",
-        });
+  private scheduleReconnect(connection: ServerConnection): void {
+    const reconnect = connection.config.reconnect;
+    const maxRetries = reconnect?.maxRetries ?? DEFAULT_RECONNECT_MAX_RETRIES;
+    if (connection.reconnectAttempts >= maxRetries) {
+      connection.state = "failed";
+      console.error(
+        `Could not reconnect to MCP server ${connection.id} after ${maxRetries} attempts`,
+      );
+      return;
+    }
+    // Exponential backoff
+    const delay = Math.min(
+      (reconnect?.initialDelayMs ?? DEFAULT_RECONNECT_INITIAL_DELAY_MS) *
+        2 ** connection.reconnectAttempts,
+      reconnect?.maxDelayMs ?? DEFAULT_RECONNECT_MAX_DELAY_MS,
+    );
+    connection.reconnectAttempts++;
+    connection.reconnectTimer = setTimeout(async () => {
+      if (connection.state !== "reconnecting") {
+        return;
       }
+      const previousActions = connection.actions;
+      const previousTools = this.getToolsSignature(connection.tools);
+      try {
+        Object.assign(
+          connection,
+          await this.openSession(connection.id, connection.config, () =>
+            this.servers.get(connection.id),
+          ),
+          { state: "connected", reconnectAttempts: 0, lastError: undefined },
+        );
+        if (this.debug) {
+          console.log(`Reconnected to MCP server ${connection.id}`);
+        }
+        if (this.getToolsSignature(connection.tools) !== previousTools) {
+          this.options.onActionsChanged?.(
+            connection.id,
+            connection.actions,
+            previousActions,
+          );
+        }
+      } catch (error) {
+        connection.lastError = `Reconnect failed: ${error}`;
+        this.scheduleReconnect(connection);
+      }
+    }, delay);
+  }
 
-      const client = new Client({
-        name: `hyperagent-mcp-client-${serverId}`,
-        version: "1.0.0",
-      });
-
-      await client.connect(transport);
-
-      const toolsResult = await client.listTools();
-      const toolsMap = new Map<string, Tool>();
-
-      // Create actions for each tool
-      const actions = toolsResult.tools
-        .filter((tool) => {
-          if (
-            serverConfig.includeTools &&
-            !serverConfig.includeTools.includes(tool.name)
-          ) {
-            return false;
-          }
-          if (
-            serverConfig.excludeTools &&
-            serverConfig.excludeTools.includes(tool.name)
-          ) {
-            return false;
-          }
-          return true;
-        })
-        .map((tool) => {
-          // Store tool reference for later use
-          toolsMap.set(tool.name, tool);
-
-          // Create action definition
-          return {
-            type: tool.name,
-            actionParams: z
-              .object({
-                params: z
-                  .string()
-                  .describe(
-                    `The stringified parameters to the ${tool.name} MCP tool. Here is the schema: ${JSON.stringify(tool.inputSchema)}`,
-                  ),
-              })
-              .describe(tool.description ?? ""),
-            run: async (
-              ctx: ActionContext,
-              action: any,
-            ): Promise<ActionOutput> => {
-              if (!ctx.mcpClient) {
-                throw new Error(
-                  "MCP client not available. Please ensure an MCP server is connected.",
-                );
-              }
-
-              const params = JSON.parse(action.params);
-              const targetServerId = serverId;
-
-              const result = await ctx.mcpClient.executeTool(
-                tool.name,
-                params,
-                targetServerId,
-              );
-
-              return {
-                success: true,
-                message: `MCP tool ${tool.name} execution successful: ${JSON.stringify(result)}`,
-              };
-            },
-          };
-        });
+  private getToolsSignature(tools: Map<string, Tool>): string {
+    return JSON.stringify(
+      [...tools.values()].map((tool) => [
+        tool.name,
+        tool.description,
+        tool.inputSchema,
+      ]),
+    );
+  }
 
-      // Store server connection
-      this.servers.set(serverId, {
-        id: serverId,
-        config: serverConfig,
-        client,
-        transport,
-        tools: toolsMap,
-        actions,
-      });
+  /**
+   * Reload the tool list of a server, and rebuild its actions if the tools changed
+   * @param serverId The ID of the server
+   * @returns Whether the tools of the server changed
+   */
+  async refreshTools(serverId: string): Promise<boolean> {
+    const connection = this.servers.get(serverId);
+    if (!connection || connection.state !== "connected") {
+      return false;
+    }
+    try {
+      const tools = new Map(
+        this.filterTools(
+          connection.config,
+          await this.listServerTools(connection.client),
+        ).map((tool) => [tool.name, tool]),
+      );
+      if (
+        this.getToolsSignature(tools) ===
+        this.getToolsSignature(connection.tools)
+      ) {
+        return false;
+      }
+      const previousActions = connection.actions;
+      connection.tools = tools;
+      connection.actions = [...tools.values()].map((tool) =>
+        this.createAction(serverId, tool),
+      );
       if (this.debug) {
-        console.log(`Connected to MCP server with ID: ${serverId}`);
-        console.log("Added tools:", Array.from(toolsMap.keys()));
+        console.log(
+          `Tools of MCP server ${serverId} changed:`,
+          Array.from(tools.keys()),
+        );
       }
-      return { serverId, actions };
-    } catch (e) {
-      console.error("Failed to connect to MCP server: ", e);
-      throw e;
+      this.options.onActionsChanged?.(
+        serverId,
+        connection.actions,
+        previousActions,
+      );
+      return true;
+    } catch (error) {
+      connection.lastError = `Tool refresh failed: ${error}`;
+      return false;
     }
   }
 
@@ -206,6 +613,11 @@ class MCPClient {
     if (!server) {
       throw new Error(`Server with ID ${serverId} not found`);
     }
+    if (server.state !== "connected") {
+      throw new Error(
+        `MCP server ${serverId} is ${server.state}, tool ${toolName} is unavailable`,
+      );
+    }
 
     try {
       const result = await server.client.callTool({
@@ -223,6 +635,95 @@ class MCPClient {
     }
   }
 
+  /**
+   * List the resources of all connected servers
+   * @returns The resources, along with the ID of the server exposing them
+   */
+  getResources(): MCPResourceInfo[] {
+    return [...this.servers.values()].flatMap((server) =>
+      server.resources.map((resource) => ({
+        serverId: server.id,
+        uri: resource.uri,
+        name: resource.name,
+        description: resource.description,
+        mimeType: resource.mimeType,
+      })),
+    );
+  }
+
+  /**
+   * Read a resource
+   * @param uri The URI of the resource
+   * @param serverId The ID of the server to read from (optional, defaults to the server listing the resource)
+   * @returns The contents of the resource
+   */
+  async readResource(
+    uri: string,
+    serverId?: string,
+  ): Promise<MCPResourceContent[]> {
+    // Resources from templates are not listed, they can only be read from a given server or from the only one
+    serverId ??=
+      this.getResources().find((resource) => resource.uri === uri)?.serverId ??
+      (this.servers.size === 1 ? [...this.servers.keys()][0] : undefined);
+    const server = serverId ? this.servers.get(serverId) : undefined;
+    if (!server) {
+      throw new Error(`No valid server found for resource ${uri}`);
+    }
+    if (server.state !== "connected") {
+      throw new Error(
+        `MCP server ${server.id} is ${server.state}, resource ${uri} is unavailable`,
+      );
+    }
+    const result = await server.client.readResource({ uri });
+    return result.contents.map((content) => ({
+      uri: content.uri,
+      mimeType: content.mimeType,
+      text:
+        "text" in content && typeof content.text === "string"
+          ? content.text
+          : `[binary content${content.mimeType ? ` ${content.mimeType}` : ""}]`,
+    }));
+  }
+
+  /**
+   * List the prompts of all connected servers
+   * @returns The prompts, along with the ID of the server exposing them
+   */
+  getPrompts(): MCPPromptInfo[] {
+    return [...this.servers.values()].flatMap((server) =>
+      server.prompts.map((prompt) => ({
+        serverId: server.id,
+        name: prompt.name,
+        description: prompt.description,
+        arguments: prompt.arguments,
+      })),
+    );
+  }
+
+  /**
+   * Get a prompt of a server, filled with the given arguments
+   * @param serverId The ID of the server
+   * @param name The name of the prompt
+   * @param args The arguments of the prompt
+   * @returns The messages of the prompt
+   */
+  async getPrompt(
+    serverId: string,
+    name: string,
+    args: Record<string, string> = {},
+  ): Promise<GetPromptResult> {
+    const server = this.servers.get(serverId);
+    if (!server) {
+      throw new Error(`Server with ID ${serverId} not found`);
+    }
+    if (server.state !== "connected") {
+      throw new Error(
+        `MCP server ${serverId} is ${server.state}, prompt ${name} is unavailable`,
+      );
+    }
+    return server.client.getPrompt({ name, arguments: args });
+  }
+
   /**
    * Get all registered action definitions from all connected servers
    * @returns Array of action definitions
@@ -250,8 +751,11 @@ class MCPClient {
   async disconnectServer(serverId: string): Promise<void> {
     const server = this.servers.get(serverId);
     if (server) {
-      await server.transport.close();
+      server.state = "disconnected";
+      clearInterval(server.healthCheckTimer);
+      clearTimeout(server.reconnectTimer);
       this.servers.delete(serverId);
+      await server.client.close();
       if (this.debug) {
         console.log(`Disconnected from MCP server with ID: ${serverId}`);
       }
@@ -281,19 +785,39 @@ class MCPClient {
     return { exists: false };
   }
 
+  /**
+   * Find the tool an action calls
+   * @param actionType The type of the action
+   * @returns The tool name and the ID of its server, or undefined if the action does not call an MCP tool
+   */
+  getActionTool(
+    actionType: string,
+  ): { serverId: string; toolName: string } | undefined {
+    for (const [serverId, server] of this.servers.entries()) {
+      for (const toolName of server.tools.keys()) {
+        if (getMCPActionType(serverId, toolName) === actionType) {
+          return { serverId, toolName };
+        }
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Get information about all connected servers
    * @returns Array of server information objects
    */
-  getServerInfo(): Array<{
-    id: string;
-    toolCount: number;
-    toolNames: string[];
-  }> {
+  getServerInfo(): MCPServerInfo[] {
     return Array.from(this.servers.entries()).map(([id, server]) => ({
       id,
       toolCount: server.tools.size,
       toolNames: Array.from(server.tools.keys()),
+      state: server.state,
+      reconnectAttempts: server.reconnectAttempts,
+      lastError: server.lastError,
+      lastPingAt: server.lastPingAt,
+      resourceCount: server.resources.length,
+      promptNames: server.prompts.map((prompt) => prompt.name),
     }));
   }
 
@@ -1,10 +1,48 @@
-import { AgentStep } from "@/types";
+import { AgentStep, PlanItem } from "@/types";
 import { BaseMessageLike } from "@langchain/core/messages";
 import { Page } from "playwright";
 import { getScrollInfo } from "./utils";
 import { retry } from "@/utils/retry";
 import { DOMState } from "@/context-providers/dom/types";
 import { HyperVariable } from "@/types/agent/types";
+import { TabInfo } from "../tools/tabs";
+import { redactSecrets } from "@/utils/secrets";
+import { MCPResourceContent, MCPResourceInfo } from "../mcp/client";
+import { formatPlan } from "../tools/planner";
+
+// Longer resource lists are cut, the agent can still read unlisted resources by URI
+const MAX_LISTED_RESOURCES = 30;
+
+export interface AgentStepMessagesOptions {
+  /**
+   * Rolling summary of the steps that are not passed in individually
+   */
+  memory?: string;
+  /**
+   * Number of earlier steps that were dropped from the history
+   */
+  omittedSteps?: number;
+  /**
+   * Tabs open in the browser context, listed when more than one tab is open
+   */
+  tabs?: TabInfo[];
+  /**
+   * Resources of the connected MCP servers, listed so the agent can read them
+   */
+  mcpResources?: MCPResourceInfo[];
+  /**
+   * Contents of the MCP resources given as context of the task
+   */
+  mcpResourceContents?: MCPResourceContent[];
+  /**
+   * Plan of the task, when planning is enabled
+   */
+  plan?: PlanItem[];
+  /**
+   * Warning about the task being stuck, given after a recovery was applied
+   */
+  warning?: string;
+}
 
 export const buildAgentStepMessages = async (
   baseMessages: BaseMessageLike[],
@@ -12,8 +50,9 @@ export const buildAgentStepMessages = async (
   task: string,
   page: Page,
   domState: DOMState,
-  screenshot: string,
+  screenshot: string | undefined,
   variables: HyperVariable[],
+  options: AgentStepMessagesOptions = {},
 ): Promise<BaseMessageLike[]> => {
   const messages = [...baseMessages];
 
@@ -23,6 +62,37 @@ export const buildAgentStepMessages = async (
     content: `=== Final Goal ===\n${task}\n`,
   });
 
+  // Add the resources given as context of the task
+  if (options.mcpResourceContents && options.mcpResourceContents.length > 0) {
+    messages.push({
+      role: "user",
+      content: `=== Task Context ===\n${options.mcpResourceContents
+        .map((resource) => `--- ${resource.uri} ---\n${resource.text}`)
+        .join("\n\n")}\n`,
+    });
+  }
+
+  // Add the plan section
+  if (options.plan && options.plan.length > 0) {
+    messages.push({
+      role: "user",
+      content: `=== Plan ===\n${formatPlan(options.plan)}\nREMINDER: Use updatePlan once a subgoal is accomplished or when the plan has to change.\n`,
+    });
+  }
+
+  // Add open tabs section
+  if (options.tabs && options.tabs.length > 1) {
+    messages.push({
+      role: "user",
+      content: `=== Open Tabs ===\n${options.tabs
+        .map(
+          (tab) =>
+            `[${tab.index}] ${tab.title || "(untitled)"} - ${tab.url}${tab.active ? " (current)" : ""}`,
+        )
+        .join("\n")}\n`,
+    });
+  }
+
   // Add current URL section
   messages.push({
     role: "user",
@@ -34,8 +104,12 @@ export const buildAgentStepMessages = async (
     messages.push({
       role: "user",
       content: `=== Variables ===
-      ${variables.map((v) => `<<${v.key}>> = (${v.description || "extracted value"})`).join("\n")}
-      REMINDER: Use <<variableKey>> in action parameters instead of the actual value.`,
+      ${variables.map((v) => `<<${v.key}>> = (${v.secret ? "secret, " : ""}${v.description || "extracted value"})`).join("\n")}
+      REMINDER: Use <<variableKey>> in action parameters instead of the actual value.${
+        variables.some((v) => v.secret)
+          ? "\n      Secret variables can only be used in inputText and goToUrl actions, their values are never shown to you."
+          : ""
+      }`,
     });
   } else {
     messages.push({
@@ -44,11 +118,39 @@ export const buildAgentStepMessages = async (
     });
   }
 
+  // Add the resources the agent can read with readMcpResource
+  if (options.mcpResources && options.mcpResources.length > 0) {
+    const listed = options.mcpResources.slice(0, MAX_LISTED_RESOURCES);
+    messages.push({
+      role: "user",
+      content: `=== MCP Resources ===\n${listed
+        .map(
+          (resource) =>
+            `${resource.uri} - ${resource.name}${resource.description ? `: ${resource.description}` : ""}`,
+        )
+        .join("\n")}${
+        options.mcpResources.length > listed.length
+          ? `\n(${options.mcpResources.length - listed.length} more resources not listed)`
+          : ""
+      }\n`,
+    });
+  }
+
+  // Add memory section for steps that are no longer listed individually
+  if (options.memory) {
+    messages.push({
+      role: "user",
+      content: `=== Memory ===\n${options.memory}\n`,
+    });
+  }
+
   // Add previous actions section if there are steps
   if (steps.length > 0) {
     messages.push({
       role: "user",
-      content: "=== Previous Actions ===\n",
+      content: options.omittedSteps
+        ? `=== Previous Actions ===\n(${options.omittedSteps} earlier steps omitted)\n`
+        : "=== Previous Actions ===\n",
     });
     for (const step of steps) {
       const actionOutputs = JSON.stringify({
@@ -79,6 +181,14 @@ export const buildAgentStepMessages = async (
     }
   }
 
+  // Add the warning of the last recovery
+  if (options.warning) {
+    messages.push({
+      role: "user",
+      content: `=== Warning ===\n${options.warning}\n`,
+    });
+  }
+
   // Add elements section with DOM tree
   messages.push({
     role: "user",
@@ -88,27 +198,31 @@ CRITICAL: Any values you see here (country names, city names, etc.) must ONLY be
 If you see "United Kingdom" here and you've extracted it as <<top_country_1>>, you MUST use <<top_country_1>> everywhere.`,
   });
 
-  // Add page screenshot section
+  // Add page screenshot section, left out for models without vision
   const scrollInfo = await retry({ func: () => getScrollInfo(page) });
+  const pageState = `=== Page State ===\nPixels above: ${scrollInfo[0]}\nPixels below: ${scrollInfo[1]}\n`;
   messages.push({
     role: "user",
-    content: [
-      {
-        type: "text",
-        text: "=== Page Screenshot ===\n",
-      },
-      {
-        type: "image_url",
-        image_url: {
-          url: `data:image/png;base64,${screenshot}`,
-        },
-      },
-      {
-        type: "text",
-        text: `=== Page State ===\nPixels above: ${scrollInfo[0]}\nPixels below: ${scrollInfo[1]}\n`,
-      },
-    ],
+    content: screenshot
+      ? [
+          {
+            type: "text",
+            text: "=== Page Screenshot ===\n",
+          },
+          {
+            type: "image_url",
+            image_url: {
+              url: `data:image/png;base64,${screenshot}`,
+            },
+          },
+          {
+            type: "text",
+            text: pageState,
+          },
+        ]
+      : pageState,
   });
 
-  return messages;
+  // Secret values typed into the page can show up in the elements or previous action outputs
+  return redactSecrets(messages, variables);
 };
@@ -21,6 +21,12 @@ export const INPUT_FORMAT_FIND_ELEMENT = `=== Final Goal ===
 
 export const INPUT_FORMAT = `=== Final Goal ===
 [The final goal that needs to be accomplished]
+=== Task Context ===
+[Documents given along with the task, only present when the task has context]
+=== Plan ===
+[Checklist of the subgoals of the task, only present when planning is enabled]
+- [x] marks accomplished subgoals
+- Keep it up to date with the updatePlan action
 === Open Tabs ===
 [The open tabs]
 === Current URL ===
@@ -32,6 +38,8 @@ export const INPUT_FORMAT = `=== Final Goal ===
 - Variables persist across actions and can be referenced in subsequent steps
 - Format: <<name>> - {description}
 - IMPORTANT: Use only the variable reference <<name>>, never hardcode values
+=== MCP Resources ===
+[Resources of the connected MCP servers that can be read with readMcpResource, only present when there are any]
 === Elements ===
 [A list of the elements on the page in the following format]
 [index]<type attributes...>value</type>
@@ -43,8 +51,12 @@ export const INPUT_FORMAT = `=== Final Goal ===
   * Custom attributes
   * Any other valid HTML attributes
   * The attributes provide important context about the element's behavior, accessibility, and styling
+=== Memory ===
+[A summary of earlier steps that are no longer listed individually, only present for long tasks]
 === Previous Actions ===
 [The previous steps of the task]
+=== Warning ===
+[Only present when you are stuck repeating the same actions or failing them, follow its instructions]
 === Page Screenshot ===
 - A screenshot of the current page with the interactive elements highlighted with their index
 === Page State ===
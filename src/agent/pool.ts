@@ -0,0 +1,164 @@
+import { Browser, BrowserContext } from "playwright";
+import { BrowserProviders } from "@/types/config";
+import { HyperVariable, TaskStatus } from "@/types";
+import {
+  AgentPoolOptions,
+  PoolResult,
+  PoolTask,
+  PoolTaskResult,
+} from "@/types/agent/pool";
+import { HyperAgent } from "./index";
+import { addUsage, emptyUsage } from "./llms/usage";
+
+const DEFAULT_CONCURRENCY = 3;
+
+interface QueuedTask {
+  task: PoolTask;
+  resolve: (result: PoolTaskResult) => void;
+}
+
+/**
+ * Runs tasks concurrently on the browser of an agent. Every task gets its own browser context and its own copy of
+ * the agent's variables, so tasks can't see each other's pages, cookies or extracted values.
+ * Tasks beyond the concurrency limit are queued and started in order.
+ */
+export class AgentPool<T extends BrowserProviders = "Local"> {
+  private queue: QueuedTask[] = [];
+  private running = 0;
+  private concurrency: number;
+  private browserReady?: Promise<Browser>;
+
+  constructor(
+    private agent: HyperAgent<T>,
+    private options: AgentPoolOptions = {},
+  ) {
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  }
+
+  /**
+   * Number of tasks waiting for a free slot
+   */
+  public get pendingCount(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Number of tasks currently running
+   */
+  public get runningCount(): number {
+    return this.running;
+  }
+
+  /**
+   * Queue a task
+   * @param task The task to run
+   * @returns A promise that resolves once the task ended. Never rejects, failures are reported in the result.
+   */
+  public submit(task: PoolTask): Promise<PoolTaskResult> {
+    return new Promise((resolve) => {
+      this.queue.push({ task, resolve });
+      this.drain();
+    });
+  }
+
+  /**
+   * Run a batch of tasks and wait for all of them to end
+   * @param tasks The tasks to run
+   * @returns The result of every task and aggregated counts and usage
+   */
+  public async runAll(tasks: PoolTask[]): Promise<PoolResult> {
+    const startedAt = Date.now();
+    const results = await Promise.all(tasks.map((task) => this.submit(task)));
+    const usage = emptyUsage();
+    for (const result of results) {
+      if (result.output?.usage) {
+        addUsage(usage, result.output.usage);
+      }
+    }
+    return {
+      results,
+      completed: results.filter(
+        (result) => result.status === TaskStatus.COMPLETED,
+      ).length,
+      failed: results.filter((result) => result.status === TaskStatus.FAILED)
+        .length,
+      timedOut: results.filter((result) => result.timedOut).length,
+      usage,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  private drain(): void {
+    while (this.running < this.concurrency && this.queue.length > 0) {
+      const { task, resolve } = this.queue.shift()!;
+      this.running++;
+      this.runTask(task)
+        .then(resolve)
+        .finally(() => {
+          this.running--;
+          this.drain();
+        });
+    }
+  }
+
+  private async runTask(poolTask: PoolTask): Promise<PoolTaskResult> {
+    const startedAt = Date.now();
+    // Copied so that updates made by the task don't leak into the agent or other tasks
+    const variables: Record<string, HyperVariable> = structuredClone(
+      this.agent.getVariables(),
+    );
+    for (const variable of poolTask.variables ?? []) {
+      variables[variable.key] = variable;
+    }
+    const result = (
+      status: TaskStatus,
+      fields: Partial<PoolTaskResult> = {},
+    ): PoolTaskResult => ({
+      task: poolTask.task,
+      status,
+      timedOut: false,
+      variables,
+      durationMs: Date.now() - startedAt,
+      ...fields,
+    });
+
+    const timeoutMs =
+      poolTask.timeoutMs ??
+      poolTask.params?.timeoutMs ??
+      this.options.taskTimeoutMs;
+    let context: BrowserContext | undefined;
+    try {
+      // Tasks starting together must not each launch a browser
+      this.browserReady ??= this.agent.initBrowser().catch((error) => {
+        this.browserReady = undefined;
+        throw error;
+      });
+      await this.browserReady;
+      context = await this.agent.newContext();
+      const page = await context.newPage();
+      if (poolTask.startUrl) {
+        await page.goto(poolTask.startUrl);
+      }
+
+      const output = await this.agent.executeTask(
+        poolTask.task,
+        { ...poolTask.params, variables, timeoutMs },
+        page,
+      );
+      if (output.status === TaskStatus.TIMED_OUT) {
+        return result(TaskStatus.TIMED_OUT, {
+          output,
+          error: output.output,
+          timedOut: true,
+        });
+      }
+      return result(output.status ?? TaskStatus.COMPLETED, { output });
+    } catch (error) {
+      return result(TaskStatus.FAILED, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      await context?.close().catch(() => {});
+    }
+  }
+}
@@ -8,14 +8,24 @@ import {
   ActionType,
   AgentActionDefinition,
 } from "@/types";
-import { getDom } from "@/context-providers/dom";
+import { getDomState } from "@/context-providers";
 import { initActionScript, wrapUpActionScript } from "@/utils/action";
 import { retry } from "@/utils/retry";
 import { sleep } from "@/utils/sleep";
+import { waitForPageSettled } from "@/utils/page-settle";
+import { redactSecrets } from "@/utils/secrets";
+import {
+  createDeadline,
+  Deadline,
+  getAbortMessage,
+  raceAbort,
+} from "@/utils/abort";
 
 import {
+  AgentOutput,
   AgentOutputFn,
   endTaskStatuses,
+  StagnationIntervention,
   TaskParams,
   TaskOutput,
   TaskState,
@@ -24,13 +34,40 @@ import {
 
 import { HyperagentError } from "../error";
 import { buildAgentStepMessages } from "../messages/builder";
-import { getStructuredOutputMethod } from "../llms/structured-output";
+import {
+  getStructuredOutputMethod,
+  invokeStructuredOutput,
+} from "../llms/structured-output";
+import { UsageTracker } from "../llms/usage";
+import { routeModel } from "../llms/router";
+import { HistoryManager } from "../history";
+import { UsageReport } from "@/types/agent/usage";
 import { SYSTEM_PROMPT } from "../messages/system-prompt";
 import { z } from "zod";
 import { DOMState } from "@/context-providers/dom/types";
-import { Page } from "playwright";
-import { ActionNotFoundError } from "../actions";
+import { BrowserContext, Frame, Page } from "playwright";
+import { BaseMessageLike } from "@langchain/core/messages";
+import {
+  ActionNotFoundError,
+  ReadMCPResourceActionDefinition,
+  ThinkingActionDefinition,
+} from "../actions";
 import { AgentCtx } from "./types";
+import { MCPResourceContent } from "../mcp/client";
+import { createTaskPlan } from "./planner";
+import { checkTaskCompletion } from "./verifier";
+import {
+  applyPageRecovery,
+  fingerprintStep,
+  formatInterventionWarning,
+  StagnationDetector,
+} from "./stagnation";
+import { checkpointTask } from "./checkpoint";
+import { updateTaskStatus } from "./status";
+import { TabManager } from "./tabs";
+import { detectPageChange, StepPageState } from "./page-change";
+import { createTaskTrace, recordTraceAction } from "./trace";
+import { awaitApproval, classifyAction } from "./approval";
 import sharp from "sharp";
 
 export const compositeScreenshot = async (page: Page, overlay: string) => {
@@ -54,7 +91,8 @@ export const getActionSchema = (actions: Array<AgentActionDefinition>) => {
         ),
     }),
   );
-  return z.union([zodDefs[0], zodDefs[1], ...zodDefs.splice(2)]);
+  // z.union needs at least two options
+  return z.union([zodDefs[0], zodDefs[1] ?? zodDefs[0], ...zodDefs.splice(2)]);
 };
 
 const getActionHandler = (
@@ -85,22 +123,64 @@ const getActionCodeGenerator = (
   }
 };
 
+/**
+ * Report the navigations blocked by the navigation policy while an action ran, and fail the action if any were
+ */
+const applyNavigationViolations = <T>(
+  ctx: AgentCtx<T>,
+  taskId: string,
+  context: BrowserContext,
+  actionOutput: ActionOutput,
+): ActionOutput => {
+  const violations = ctx.navigationPolicy?.drainViolations(context) ?? [];
+  for (const violation of violations) {
+    ctx.emitter?.emit("policyViolation", {
+      taskId,
+      policy: "navigation",
+      url: violation.url,
+      reason: violation.reason,
+    });
+  }
+  if (violations.length === 0 || !actionOutput.success) {
+    return actionOutput;
+  }
+  return {
+    ...actionOutput,
+    success: false,
+    message: `${actionOutput.message}. Navigation blocked by the navigation policy: ${violations.map((violation) => violation.reason).join(", ")}`,
+  };
+};
+
 const runAction = async <T extends "Local" | "Hyperbrowser">(
   action: ActionType,
   domState: DOMState,
   page: Page,
   ctx: AgentCtx<T>,
+  taskState: TaskState,
+  usage: UsageTracker,
+  tabs: TabManager,
   step: number,
   substep: number,
+  deadline?: Deadline,
 ): Promise<ActionOutput> => {
+  const signal = deadline?.signal;
+  // Recorded before running the action, tab actions change the current tab
+  const tabIndex = tabs.currentIndex;
+  const url = page.url();
   const actionCtx: ActionContext = {
     domState,
     page,
     tokenLimit: ctx.tokenLimit,
     llm: ctx.llm,
+    modelCapabilities: ctx.modelCapabilities,
+    models: ctx.models,
     debugDir: ctx.debugDir,
     mcpClient: ctx.mcpClient || undefined,
     variables: ctx.variables,
+    usage,
+    tabs,
+    navigationPolicy: ctx.navigationPolicy,
+    signal,
   };
   const actionType = action.type;
   const actionHandler = getActionHandler(ctx.actions, action.type);
@@ -111,25 +191,97 @@ const runAction = async <T extends "Local" | "Hyperbrowser">(
     };
   }
 
+  const approvalPolicy = ctx.agentConfig?.approvalPolicy;
+  const approvalRequest = approvalPolicy
+    ? await classifyAction(approvalPolicy, action, actionCtx, {
+        taskId: taskState.id,
+        step,
+        substep,
+      })
+    : null;
+  if (approvalPolicy && approvalRequest) {
+    // The step does not time out while the user decides
+    deadline?.pause();
+    const rejectedOutput = await awaitApproval(
+      approvalPolicy,
+      approvalRequest,
+      taskState,
+      ctx.emitter,
+    ).finally(() => deadline?.resume());
+    if (rejectedOutput) {
+      recordTraceAction(taskState.trace, {
+        action,
+        actionCtx,
+        actionOutput: rejectedOutput,
+        step,
+        substep,
+        tabIndex,
+        url,
+      });
+      return rejectedOutput;
+    }
+  }
+
+  if (signal?.aborted) {
+    return {
+      success: false,
+      message: `Action ${action.type} skipped: ${getAbortMessage(signal)}`,
+      skipped: true,
+    };
+  }
+  const remaining = deadline?.remaining();
+  actionCtx.timeoutAt =
+    remaining === undefined ? undefined : Date.now() + remaining;
+
   try {
-    const actionOutput = await actionHandler(actionCtx, action.params);
+    // Actions ignoring the signal stop being waited for once it aborts
+    const rawActionOutput = await raceAbort(
+      actionHandler(actionCtx, action.params),
+      signal,
+    );
 
     // Check if the action output contains variable updates
     if (
-      actionOutput.variableUpdates &&
-      actionOutput.variableUpdates.length > 0
+      rawActionOutput.variableUpdates &&
+      rawActionOutput.variableUpdates.length > 0
     ) {
       // Update ctx.variables with the new values
-      for (const update of actionOutput.variableUpdates) {
+      for (const update of rawActionOutput.variableUpdates) {
+        const previousVariable = ctx.variables[update.key];
         ctx.variables[update.key] = {
           key: update.key,
           value: update.value,
           description:
-            update.description || ctx.variables[update.key]?.description || "",
+            update.description || previousVariable?.description || "",
+          secret: update.secret ?? previousVariable?.secret,
         };
+        ctx.emitter?.emit("variableUpdated", {
+          taskId: taskState.id,
+          variable: ctx.variables[update.key],
+          previousVariable,
+        });
       }
     }
 
+    if (rawActionOutput.planUpdate) {
+      taskState.plan = rawActionOutput.planUpdate;
+      ctx.emitter?.emit("planUpdated", {
+        taskId: taskState.id,
+        plan: taskState.plan,
+      });
+    }
+
+    // Everything past this point ends up in the LLM context, debug files, scripts or traces
+    const actionOutput = redactSecrets(
+      applyNavigationViolations(
+        ctx,
+        taskState.id,
+        page.context(),
+        rawActionOutput,
+      ),
+      ctx.variables,
+    );
+
     if (ctx.generateScript) {
       await updateActionScript(
         action,
@@ -138,17 +290,71 @@ const runAction = async <T extends "Local" | "Hyperbrowser">(
         actionOutput,
         step,
         substep,
+        tabIndex,
+        tabs.count,
       );
     }
+    recordTraceAction(taskState.trace, {
+      action,
+      actionCtx,
+      actionOutput,
+      step,
+      substep,
+      tabIndex,
+      url,
+    });
     return actionOutput;
   } catch (error) {
-    return {
-      success: false,
-      message: `Action ${action.type} failed: ${error}`,
-    };
+    const actionOutput: ActionOutput = redactSecrets(
+      applyNavigationViolations(ctx, taskState.id, page.context(), {
+        success: false,
+        message: `Action ${action.type} failed: ${error}`,
+      }),
+      ctx.variables,
+    );
+    recordTraceAction(taskState.trace, {
+      action,
+      actionCtx,
+      actionOutput,
+      step,
+      substep,
+      tabIndex,
+      url,
+    });
+    return actionOutput;
   }
 };
 
+/**
+ * Apply the recovery of an intervention, recording why it could not be applied
+ */
+const applyRecovery = async <T>(
+  ctx: AgentCtx<T>,
+  intervention: StagnationIntervention,
+  page: Page,
+): Promise<StagnationIntervention> => {
+  if (
+    intervention.strategy === "think" &&
+    !ctx.actions.some((action) => action.type === ThinkingActionDefinition.type)
+  ) {
+    return { ...intervention, error: "thinkAction is not available" };
+  }
+  if (
+    intervention.strategy === "escalate" &&
+    !ctx.models?.getEscalation(Number.POSITIVE_INFINITY)
+  ) {
+    return { ...intervention, error: "no escalation model is configured" };
+  }
+  const recovered = await applyPageRecovery(intervention, page);
+  if (!recovered.error) {
+    await waitForPageSettled(page, ctx.agentConfig?.pageSettle);
+  }
+  return recovered;
+};
+
+// Actions that manage tabs themselves in their generated code
+const TAB_ACTIONS = new Set(["switchTab", "openTab", "closeTab"]);
+
 const updateActionScript = async (
   action: ActionType,
   ctx: AgentCtx<"Local" | "Hyperbrowser">,
@@ -156,6 +362,8 @@ const updateActionScript = async (
   actionOutput: ActionOutput,
   step: number,
   substep: number,
+  tabIndex: number,
+  tabCount: number,
 ) => {
   if (actionOutput.success && ctx.scriptFile) {
     const scriptFile = ctx.scriptFile;
@@ -163,28 +371,56 @@ const updateActionScript = async (
     const actionParamsStr = JSON.stringify(action.params, null, 2);
     const generateCodeFn = getActionCodeGenerator(ctx.actions, action.type);
 
-    const code = await generateCodeFn(
-      actionCtx,
-      action.params,
-      `step_${step}_${substep}_`,
-      actionOutput.variableUpdates,
+    const code = redactSecrets(
+      await generateCodeFn(
+        actionCtx,
+        action.params,
+        `step_${step}_${substep}_`,
+        actionOutput.variableUpdates,
+      ),
+      ctx.variables,
     );
 
+    // Point the script at the tab the action ran on, tabs can change without an action (e.g. popups)
+    const switchTabCode =
+      tabCount > 1 && !TAB_ACTIONS.has(action.type)
+        ? `ctx.page = (await agent.getPages())[${tabIndex}];`
+        : "";
+
     fs.appendFileSync(
       scriptFile,
       `
       /*
       action: ${action.type}
+      tab: ${tabIndex}
       actionParams = ${actionParamsStr}
       */
 
+      ${switchTabCode}
       ${code}
-      await sleep(4000);
+      await waitForPageSettled(ctx.page, ${JSON.stringify(ctx.agentConfig?.pageSettle ?? {})});
       `,
     );
   }
 };
 
+/**
+ * Check the usage of a task against the budgets of the task
+ * @returns A description of the exceeded budget, or null if the task is within budget
+ */
+const getExceededBudget = (
+  usage: UsageReport,
+  params?: TaskParams,
+): string | null => {
+  if (params?.maxTokens && usage.totalTokens >= params.maxTokens) {
+    return `token budget of ${params.maxTokens} exceeded (${usage.totalTokens} tokens used)`;
+  }
+  if (params?.maxCostUsd && usage.costUsd >= params.maxCostUsd) {
+    return `cost budget of $${params.maxCostUsd} exceeded ($${usage.costUsd.toFixed(4)} spent)`;
+  }
+  return null;
+};
+
 export const runAgentTask = async (
   ctx: AgentCtx<"Local" | "Hyperbrowser">,
   taskState: TaskState,
@@ -209,18 +445,111 @@ export const runAgentTask = async (
   if (!ctx.llm) {
     throw new HyperagentError("LLM not initialized");
   }
-  const llmStructured = ctx.llm.withStructuredOutput(
-    AgentOutputFn(getActionSchema(ctx.actions)),
-    { method: getStructuredOutputMethod(ctx.llm) },
+  const agentOutputSchema = AgentOutputFn(getActionSchema(ctx.actions));
+  const thinkAction = ctx.actions.find(
+    (action) => action.type === ThinkingActionDefinition.type,
   );
+  // Steps forced to reconsider the approach can only think
+  const thinkOutputSchema = thinkAction
+    ? AgentOutputFn(getActionSchema([thinkAction]))
+    : agentOutputSchema;
+  const taskUsage = new UsageTracker({
+    pricing: ctx.agentConfig?.pricing,
+    parent: ctx.usage,
+  });
   const baseMsgs = [{ role: "system", content: SYSTEM_PROMPT }];
+  const history = new HistoryManager(taskState, {
+    config: params?.history,
+    llm: routeModel(ctx, "summarizer").llm,
+    tokenLimit: ctx.tokenLimit,
+    usage: taskUsage,
+  });
+
+  const mcpResourceContents: MCPResourceContent[] = [];
+  for (const uri of params?.mcpResources ?? []) {
+    if (!ctx.mcpClient) {
+      throw new HyperagentError(
+        `Cannot read resource ${uri}, no MCP server is connected`,
+        400,
+      );
+    }
+    mcpResourceContents.push(...(await ctx.mcpClient.readResource(uri)));
+  }
+
+  // Resumed tasks keep appending to the trace of their checkpoint
+  taskState.trace ??= createTaskTrace(
+    taskState,
+    taskState.startingPage,
+    ctx.variables,
+  );
+  updateTaskStatus(taskState, TaskStatus.RUNNING, ctx.emitter);
 
-  taskState.status = TaskStatus.RUNNING as TaskStatus;
   let output = "";
-  const page = taskState.startingPage;
-  let currStep = 0;
+  // Cancelling or timing out the task aborts the LLM calls and actions in flight
+  const abortController = (taskState.abortController ??= new AbortController());
+  const taskTimeout = params?.timeoutMs
+    ? setTimeout(() => {
+        if (endTaskStatuses.has(taskState.status)) {
+          return;
+        }
+        output = `Task timed out after ${params.timeoutMs}ms`;
+        updateTaskStatus(taskState, TaskStatus.TIMED_OUT, ctx.emitter);
+        abortController.abort(new Error(output));
+      }, params.timeoutMs).unref()
+    : undefined;
+
+  // Resumed tasks keep the plan of their checkpoint
+  if (params?.planning && !taskState.plan) {
+    try {
+      taskState.plan = await createTaskPlan(
+        ctx,
+        taskState.task,
+        taskState.startingPage,
+        taskUsage,
+        abortController.signal,
+      );
+      ctx.emitter?.emit("planUpdated", { taskId, plan: taskState.plan });
+    } catch (error) {
+      // The task can still run without a plan
+      console.error(`Failed to plan task ${taskId}:`, error);
+    }
+  }
+  const tabs = new TabManager(taskState.startingPage);
+  let page = tabs.currentPage;
+  let previousUrl = page.url();
+  const onFrameNavigated = (frame: Frame) => {
+    if (frame !== page.mainFrame()) {
+      return;
+    }
+    ctx.emitter?.emit("navigation", {
+      taskId,
+      url: frame.url(),
+      previousUrl,
+    });
+    previousUrl = frame.url();
+  };
+  page.on("framenavigated", onFrameNavigated);
+  // Resumed tasks continue counting from the last completed step
+  let currStep = taskState.steps.length;
+  // Failed action outputs in a row, used to escalate steps to a stronger model
+  let consecutiveFailures = 0;
+  const stagnation = params?.stagnation
+    ? new StagnationDetector(params.stagnation)
+    : null;
+  // Recovery applied after the last step, it shapes the next one
+  let intervention: StagnationIntervention | null = null;
+  // Aborted when the current step runs past its deadline or the task ends
+  let stepDeadline: ReturnType<typeof createDeadline> | undefined;
 
   while (true) {
+    // Follow the agent to the tab it is currently looking at
+    if (tabs.currentPage !== page) {
+      page.off("framenavigated", onFrameNavigated);
+      page = tabs.currentPage;
+      previousUrl = page.url();
+      page.on("framenavigated", onFrameNavigated);
+    }
+
     // Status Checks
     if ((taskState.status as TaskStatus) == TaskStatus.PAUSED) {
       await sleep(100);
@@ -231,33 +560,67 @@ export const runAgentTask = async (
       break;
     }
     if (params?.maxSteps && currStep >= params.maxSteps) {
-      taskState.status = TaskStatus.CANCELLED;
+      updateTaskStatus(taskState, TaskStatus.CANCELLED, ctx.emitter);
+      break;
+    }
+
+    const budgetExceeded = getExceededBudget(taskUsage.getUsage(), params);
+    if (budgetExceeded) {
+      output = `Task cancelled: ${budgetExceeded}`;
+      updateTaskStatus(taskState, TaskStatus.CANCELLED, ctx.emitter);
       break;
     }
 
     const debugStepDir = `${ctx.debugDir}/step-${currStep}`;
+    const stepUsage = new UsageTracker({ parent: taskUsage });
     if (ctx.debug) {
       fs.mkdirSync(debugStepDir, { recursive: true });
     }
 
     // Get DOM State
-    const domState = await retry({ func: () => getDom(page) });
+    const domState = await retry({
+      func: () => getDomState(page, ctx.agentConfig?.domProvider),
+    });
     if (!domState) {
-      console.log("no dom state, waiting 1 second.");
-      await sleep(1000);
+      console.log("no dom state, waiting for the page to settle.");
+      await waitForPageSettled(page, ctx.agentConfig?.pageSettle);
       continue;
     }
+    const stepPageState: StepPageState = { page, url: page.url(), domState };
+
+    // Recoveries of the last step that change how this step runs
+    const forceEscalation =
+      intervention?.strategy === "escalate" && !intervention.error;
+    const forceThink =
+      intervention?.strategy === "think" && !intervention.error;
+
+    const escalation =
+      ctx.models?.getEscalation(
+        forceEscalation ? Number.POSITIVE_INFINITY : consecutiveFailures,
+      ) ?? null;
+    const stepModel = escalation ?? routeModel(ctx, "agent");
+    if (escalation && ctx.debug) {
+      console.log(
+        `Running step ${currStep} on the escalation model after ${consecutiveFailures} failed actions`,
+      );
+    }
 
-    const trimmedScreenshot = await compositeScreenshot(
-      page,
-      domState.screenshot.startsWith("data:image/png;base64,")
-        ? domState.screenshot.slice("data:image/png;base64,".length)
-        : domState.screenshot,
-    );
+    // Models without vision get a text only prompt
+    const trimmedScreenshot = stepModel.capabilities.vision
+      ? await compositeScreenshot(
+          page,
+          domState.screenshot.startsWith("data:image/png;base64,")
+            ? domState.screenshot.slice("data:image/png;base64,".length)
+            : domState.screenshot,
+        )
+      : undefined;
 
     // Store Dom State for Debugging
     if (ctx.debug) {
-      fs.writeFileSync(`${debugStepDir}/elems.txt`, domState.domState);
+      fs.writeFileSync(
+        `${debugStepDir}/elems.txt`,
+        redactSecrets(domState.domState, ctx.variables),
+      );
       if (trimmedScreenshot) {
         fs.writeFileSync(
           `${debugStepDir}/screenshot.png`,
@@ -266,16 +629,52 @@ export const runAgentTask = async (
       }
     }
 
+    ctx.emitter?.emit("stepStarted", {
+      taskId,
+      step: currStep,
+      url: page.url(),
+    });
+
     // Build Agent Step Messages
-    const msgs = await buildAgentStepMessages(
-      baseMsgs,
-      taskState.steps,
-      taskState.task,
-      page,
-      domState,
-      trimmedScreenshot as string,
-      Object.values(ctx.variables),
-    );
+    const openTabs = await tabs.getTabs();
+    let msgs: BaseMessageLike[];
+    try {
+      msgs = await history.buildMessages(
+        (view) =>
+          buildAgentStepMessages(
+            baseMsgs,
+            view.steps,
+            taskState.task,
+            page,
+            domState,
+            trimmedScreenshot,
+            Object.values(ctx.variables),
+            {
+              memory: view.memory,
+              omittedSteps: view.omittedSteps,
+              tabs: openTabs,
+              mcpResources: ctx.actions.some(
+                (action) =>
+                  action.type === ReadMCPResourceActionDefinition.type,
+              )
+                ? ctx.mcpClient?.getResources()
+                : undefined,
+              mcpResourceContents,
+              plan: taskState.plan,
+              warning: intervention
+                ? formatInterventionWarning(intervention)
+                : undefined,
+            },
+          ),
+        abortController.signal,
+      );
+    } catch (error) {
+      // Cancelled and timed out tasks stop summarizing their history
+      if (endTaskStatuses.has(taskState.status)) {
+        break;
+      }
+      throw error;
+    }
 
     // Store Agent Step Messages for Debugging
     if (ctx.debug) {
@@ -285,12 +684,60 @@ export const runAgentTask = async (
       );
     }
 
+    stepDeadline?.dispose();
+    stepDeadline = createDeadline(
+      abortController.signal,
+      params?.stepTimeoutMs,
+      new Error(`Step timed out after ${params?.stepTimeoutMs}ms`),
+    );
+    const stepSignal = stepDeadline.signal;
+
     // Invoke LLM
-    const agentOutput = await retry({
-      func: () => llmStructured.invoke(msgs),
+    ctx.emitter?.emit("llmRequest", {
+      taskId,
+      step: currStep,
+      messages: msgs,
     });
-
-    params?.debugOnAgentOutput?.(agentOutput);
+    const actionOutputs: ActionOutput[] = [];
+    let agentOutput: AgentOutput;
+    try {
+      agentOutput = await retry({
+        func: () =>
+          invokeStructuredOutput({
+            llm: stepModel.llm,
+            schema: forceThink ? thinkOutputSchema : agentOutputSchema,
+            messages: msgs,
+            method: getStructuredOutputMethod(
+              stepModel.llm,
+              stepModel.capabilities,
+            ),
+            usage: stepUsage,
+            role: "agent",
+            capabilities: stepModel.capabilities,
+            signal: stepSignal,
+          }),
+        signal: stepSignal,
+      });
+      ctx.emitter?.emit("llmResponse", {
+        taskId,
+        step: currStep,
+        agentOutput,
+      });
+      params?.debugOnAgentOutput?.(agentOutput);
+    } catch (error) {
+      // Cancelled and timed out tasks end here, a timed out step is reported to the model as a failed step
+      if (endTaskStatuses.has(taskState.status)) {
+        break;
+      }
+      if (!stepSignal.aborted) {
+        throw error;
+      }
+      agentOutput = { thoughts: "", memory: "", nextGoal: "", actions: [] };
+      actionOutputs.push({
+        success: false,
+        message: `${getAbortMessage(stepSignal)} before the model answered`,
+      });
+    }
 
     // Status Checks
     if ((taskState.status as TaskStatus) == TaskStatus.PAUSED) {
@@ -303,42 +750,147 @@ export const runAgentTask = async (
 
     // Run Actions
     const agentStepActions = agentOutput.actions;
-    const actionOutputs: ActionOutput[] = [];
     let substep = 0;
+    let pageChange: string | null = null;
     for (const action of agentStepActions) {
+      if (stepSignal.aborted) {
+        actionOutputs.push({
+          success: false,
+          message: `Action ${action.type} skipped: ${getAbortMessage(stepSignal)}`,
+          skipped: true,
+        });
+        substep = substep + 1;
+        continue;
+      }
+      // The actions were planned against the state captured at the start of the step,
+      // once the page changed the remaining ones are skipped and the model gets the new state
+      if (substep > 0 && !pageChange) {
+        pageChange = await detectPageChange(
+          stepPageState,
+          tabs.currentPage,
+          action as ActionType,
+        );
+      }
+      if (pageChange) {
+        actionOutputs.push({
+          success: false,
+          message: `Action ${action.type} skipped: ${pageChange}. Review the new page state before continuing.`,
+          skipped: true,
+        });
+        substep = substep + 1;
+        continue;
+      }
+
+      ctx.emitter?.emit("actionStarted", {
+        taskId,
+        step: currStep,
+        substep,
+        action: action as ActionType,
+      });
       if (action.type === "complete") {
-        taskState.status = TaskStatus.COMPLETED;
         const actionDefinition = ctx.actions.find(
           (actionDefinition) => actionDefinition.type === "complete",
         );
-        if (actionDefinition) {
-          output =
-            (await actionDefinition.completeAction?.(
+        const completeOutput = actionDefinition
+          ? ((await actionDefinition.completeAction?.(
               action.params,
               ctx.variables,
-            )) ?? "No complete action found";
-        } else {
-          output = "No complete action found";
+            )) ?? "No complete action found")
+          : "No complete action found";
+        // Only claims of success are verified, there is nothing to check when the agent gives up
+        const rejection =
+          params?.verification && action.params.success
+            ? await checkTaskCompletion(
+                ctx,
+                taskState,
+                completeOutput,
+                tabs.currentPage,
+                params.verification,
+                stepUsage,
+                stepSignal,
+              )
+            : null;
+        // The task may have been cancelled or timed out while it was verified
+        if (endTaskStatuses.has(taskState.status)) {
+          break;
+        }
+        if (rejection) {
+          const actionOutput: ActionOutput = {
+            success: false,
+            message: rejection,
+          };
+          actionOutputs.push(actionOutput);
+          ctx.emitter?.emit("actionFinished", {
+            taskId,
+            step: currStep,
+            substep,
+            action: action as ActionType,
+            output: actionOutput,
+          });
+          substep = substep + 1;
+          continue;
         }
+        updateTaskStatus(taskState, TaskStatus.COMPLETED, ctx.emitter);
+        output = completeOutput;
       }
       const actionOutput = await runAction(
         action as ActionType,
         domState,
         page,
         ctx,
+        taskState,
+        stepUsage,
+        tabs,
         currStep,
         substep,
+        stepDeadline,
       );
       actionOutputs.push(actionOutput);
+      ctx.emitter?.emit("actionFinished", {
+        taskId,
+        step: currStep,
+        substep,
+        action: action as ActionType,
+        output: actionOutput,
+      });
       substep = substep + 1;
-      await sleep(2000); // TODO: look at this - smarter page loading
+      await waitForPageSettled(tabs.currentPage, ctx.agentConfig?.pageSettle);
     }
     const step: AgentStep = {
       idx: currStep,
       agentOutput: agentOutput,
       actionOutputs,
+      usage: stepUsage.getUsage(),
+      escalated: escalation ? true : undefined,
     };
+    for (const actionOutput of actionOutputs) {
+      if (actionOutput.skipped) {
+        continue;
+      }
+      consecutiveFailures = actionOutput.success ? 0 : consecutiveFailures + 1;
+    }
+    intervention =
+      stagnation && !endTaskStatuses.has(taskState.status)
+        ? stagnation.check(
+            fingerprintStep(
+              stepPageState.url,
+              domState,
+              agentStepActions as ActionType[],
+            ),
+            consecutiveFailures,
+          )
+        : null;
+    if (intervention) {
+      intervention = await applyRecovery(ctx, intervention, tabs.currentPage);
+      step.interventions = [intervention];
+      if (ctx.debug) {
+        console.log(
+          `Task ${taskId} is stuck (${intervention.description}), applying ${intervention.strategy}`,
+        );
+      }
+    }
     taskState.steps.push(step);
+    ctx.emitter?.emit("stepFinished", { taskId, step });
     await params?.onStep?.(step);
     currStep = currStep + 1;
 
@@ -348,12 +900,25 @@ export const runAgentTask = async (
         JSON.stringify(step, null, 2),
       );
     }
+
+    await checkpointTask(ctx, taskState, page, params);
   }
 
+  clearTimeout(taskTimeout);
+  stepDeadline?.dispose();
+  page.off("framenavigated", onFrameNavigated);
+  tabs.dispose();
+  taskState.output = output;
+  await checkpointTask(ctx, taskState, page, params);
+
   const taskOutput: TaskOutput = {
     status: taskState.status,
     steps: taskState.steps,
     output,
+    plan: taskState.plan,
+    verification: taskState.verification,
+    usage: taskUsage.getUsage(),
+    trace: taskState.trace,
   };
 
   if (ctx.debug && ctx.debugDir) {
@@ -362,10 +927,18 @@ export const runAgentTask = async (
       JSON.stringify(taskOutput, null, 2),
     );
   }
+  if ((ctx.debug || ctx.generateScript) && ctx.debugDir) {
+    fs.mkdirSync(ctx.debugDir, { recursive: true });
+    fs.writeFileSync(
+      `${ctx.debugDir}/trace.json`,
+      JSON.stringify(taskState.trace, null, 2),
+    );
+  }
   // Finish script.ts & format it
   if (ctx.scriptFile) {
     wrapUpActionScript(ctx.scriptFile);
   }
+  ctx.emitter?.emit("completed", { taskId, output: taskOutput });
   await params?.onComplete?.(taskOutput);
 
   return taskOutput;
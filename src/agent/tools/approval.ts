@@ -0,0 +1,295 @@
+import {
+  ActionContext,
+  ActionOutput,
+  ActionType,
+  endTaskStatuses,
+  TaskState,
+  TaskStatus,
+} from "@/types";
+import {
+  ApprovalDecision,
+  ApprovalPolicyConfig,
+  ApprovalRequest,
+} from "@/types/config";
+import { HyperAgentEventEmitter } from "@/utils/event-emitter";
+import { raceAbort } from "@/utils/abort";
+import { getLocator } from "../actions/utils";
+import { translateKey } from "../actions/key-press";
+import { updateTaskStatus } from "./status";
+
+const DEFAULT_APPROVAL_ELEMENT_PATTERNS = [
+  "buy",
+  "purchase",
+  "pay",
+  "checkout",
+  "check out",
+  "place order",
+  "order now",
+  "submit",
+  "confirm",
+  "delete",
+];
+
+const MAX_ELEMENT_TEXT_LENGTH = 200;
+
+const SUBMIT_KEYS = new Set(["Enter", "NumpadEnter"]);
+
+const toRegExp = (pattern: string | RegExp) =>
+  typeof pattern === "string"
+    ? new RegExp(`\\b${pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`, "i")
+    : pattern;
+
+/**
+ * Describe the element the action targets
+ * @returns The text a human would use to identify it (its label, value or visible text),
+ * and whether clicking it submits a form
+ */
+const describeElement = async (
+  actionCtx: ActionContext,
+  params: Record<string, unknown>,
+): Promise<{ text?: string; submitsForm: boolean }> => {
+  if (typeof params.index !== "number") {
+    return { submitsForm: false };
+  }
+  const element = actionCtx.domState.elements.get(params.index);
+  const locator = getLocator(actionCtx, params.index);
+  if (!element || !locator) {
+    return { submitsForm: false };
+  }
+  try {
+    const { text, submitsForm } = await locator.evaluate(
+      (el: HTMLElement) => ({
+        text:
+          el.getAttribute("aria-label") ||
+          (el instanceof HTMLInputElement ? el.value : "") ||
+          el.innerText ||
+          el.getAttribute("title") ||
+          "",
+        // Buttons without a type submit their form too
+        submitsForm:
+          (el instanceof HTMLButtonElement || el instanceof HTMLInputElement) &&
+          (el.type === "submit" || el.type === "image") &&
+          el.form !== null,
+      }),
+      undefined,
+      { timeout: 1000 },
+    );
+    return {
+      text: (text.trim() || element.name || "").slice(
+        0,
+        MAX_ELEMENT_TEXT_LENGTH,
+      ),
+      submitsForm,
+    };
+  } catch {
+    return { text: element.name, submitsForm: false };
+  }
+};
+
+/**
+ * Whether a key press submits a form: Enter pressed while a field of a form has the focus
+ */
+const isFormSubmitKeyPress = async (
+  actionCtx: ActionContext,
+  params: Record<string, unknown>,
+): Promise<boolean> => {
+  if (
+    typeof params.text !== "string" ||
+    !params.text
+      .split(/[\s+]/)
+      .some((key) => SUBMIT_KEYS.has(translateKey(key)))
+  ) {
+    return false;
+  }
+  try {
+    return await actionCtx.page.evaluate(() => {
+      // The focus can be inside same origin iframes, whose elements are not instances of the classes of the page
+      let active = document.activeElement;
+      while (active?.tagName === "IFRAME") {
+        active =
+          (active as HTMLIFrameElement).contentDocument?.activeElement ?? null;
+      }
+      if (active?.tagName !== "INPUT") {
+        return false;
+      }
+      const input = active as HTMLInputElement;
+      return (
+        input.form !== null &&
+        !["button", "checkbox", "radio", "reset", "file"].includes(input.type)
+      );
+    });
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check a pending action against the approval policy
+ * @returns The approval request to submit, or null if the action can run without approval
+ */
+export const classifyAction = async (
+  policy: ApprovalPolicyConfig,
+  action: ActionType,
+  actionCtx: ActionContext,
+  request: Pick<ApprovalRequest, "taskId" | "step" | "substep">,
+): Promise<ApprovalRequest | null> => {
+  const reasons: string[] = [];
+  const params = action.params as Record<string, unknown>;
+
+  if (policy.actionTypes?.includes(action.type)) {
+    reasons.push(`${action.type} actions need approval`);
+  }
+
+  const mcpTool = actionCtx.mcpClient?.getActionTool(action.type)?.toolName;
+  if (
+    mcpTool &&
+    (policy.mcpTools === true ||
+      policy.mcpTools?.includes(mcpTool) ||
+      policy.mcpTools?.includes(action.type))
+  ) {
+    reasons.push(`MCP tool ${mcpTool} needs approval`);
+  }
+
+  const { text: elementText, submitsForm } = await describeElement(
+    actionCtx,
+    params,
+  );
+  if (elementText) {
+    const pattern = (
+      policy.elementTextPatterns ?? DEFAULT_APPROVAL_ELEMENT_PATTERNS
+    ).find((pattern) => toRegExp(pattern).test(elementText));
+    if (pattern) {
+      reasons.push(`the target element "${elementText}" matches "${pattern}"`);
+    }
+  }
+
+  if (
+    (policy.formSubmissions ?? true) &&
+    ((action.type === "clickElement" && submitsForm) ||
+      (action.type === "keyPress" &&
+        (await isFormSubmitKeyPress(actionCtx, params))))
+  ) {
+    reasons.push("the action submits a form");
+  }
+
+  if (reasons.length === 0) {
+    return null;
+  }
+  return {
+    ...request,
+    action,
+    url: actionCtx.page.url(),
+    reasons,
+    elementText,
+    mcpTool,
+  };
+};
+
+/**
+ * Submit an approval request and wait for the decision
+ * @param signal Stops waiting for the decision, which then rejects the action
+ */
+const getDecision = async (
+  policy: ApprovalPolicyConfig,
+  request: ApprovalRequest,
+  emitter?: HyperAgentEventEmitter,
+  signal?: AbortSignal,
+): Promise<ApprovalDecision> => {
+  emitter?.emit("approvalRequested", request);
+  let decision: ApprovalDecision;
+  try {
+    decision = await raceAbort(policy.requestApproval(request), signal);
+  } catch (error) {
+    decision = { approved: false, reason: `approval failed: ${error}` };
+  }
+  emitter?.emit("approvalResolved", {
+    taskId: request.taskId,
+    request,
+    decision,
+  });
+  return decision;
+};
+
+const getRejectedOutput = (
+  request: ApprovalRequest,
+  decision: ApprovalDecision,
+): ActionOutput | null =>
+  decision.approved
+    ? null
+    : {
+        success: false,
+        message: `Action ${request.action.type} was rejected by the user${decision.reason ? `: ${decision.reason}` : ""}`,
+      };
+
+/**
+ * Pause the task until the approval request is resolved.
+ * Only running tasks are gated, the actions of tasks already paused or ended are skipped.
+ * @returns The output reported to the model if the action must not run, or null if it was approved
+ */
+export const awaitApproval = async (
+  policy: ApprovalPolicyConfig,
+  request: ApprovalRequest,
+  taskState: TaskState,
+  emitter?: HyperAgentEventEmitter,
+): Promise<ActionOutput | null> => {
+  // e.g. a complete action earlier in the batch, or a pause by hand
+  const previousStatus = taskState.status;
+  if (previousStatus !== TaskStatus.RUNNING) {
+    return {
+      success: false,
+      message: `Action ${request.action.type} skipped: the task is ${previousStatus}`,
+      skipped: true,
+    };
+  }
+  updateTaskStatus(taskState, TaskStatus.PAUSED, emitter);
+  // Cancelled tasks stop waiting for the decision
+  const decision = await getDecision(
+    policy,
+    request,
+    emitter,
+    taskState.abortController?.signal,
+  );
+
+  // The task can be cancelled while waiting, or resumed by hand
+  if (endTaskStatuses.has(taskState.status)) {
+    return {
+      success: false,
+      message: `Action ${request.action.type} skipped: the task ended while waiting for approval`,
+      skipped: true,
+    };
+  }
+  if (taskState.status === TaskStatus.PAUSED) {
+    updateTaskStatus(taskState, previousStatus, emitter);
+  }
+  return getRejectedOutput(request, decision);
+};
+
+/**
+ * Run the approval gate for an action outside of a running task, e.g. replays and actions run with `executeAction`.
+ * Aborting the signal of the action context stops waiting for the decision.
+ * @returns The output to report if the action must not run, or null if it can run
+ */
+export const approveAction = async (
+  policy: ApprovalPolicyConfig,
+  action: ActionType,
+  actionCtx: ActionContext,
+  request: Pick<ApprovalRequest, "taskId" | "step" | "substep">,
+  emitter?: HyperAgentEventEmitter,
+): Promise<ActionOutput | null> => {
+  const approvalRequest = await classifyAction(
+    policy,
+    action,
+    actionCtx,
+    request,
+  );
+  if (!approvalRequest) {
+    return null;
+  }
+  const decision = await getDecision(
+    policy,
+    approvalRequest,
+    emitter,
+    actionCtx.signal,
+  );
+  return getRejectedOutput(approvalRequest, decision);
+};
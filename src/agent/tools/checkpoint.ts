@@ -0,0 +1,102 @@
+import { BrowserContext, Page } from "playwright";
+import { pick } from "lodash";
+import { TaskParams, TaskState } from "@/types";
+import {
+  StorageState,
+  TaskSnapshot,
+  TaskSnapshotParams,
+} from "@/types/task-store/types";
+import { AgentCtx } from "./types";
+
+// Every serializable param, so that resumed tasks run with the same settings
+const SNAPSHOT_PARAMS: (keyof TaskSnapshotParams)[] = [
+  "maxSteps",
+  "timeoutMs",
+  "stepTimeoutMs",
+  "maxTokens",
+  "maxCostUsd",
+  "history",
+  "mcpResources",
+  "planning",
+  "verification",
+  "stagnation",
+];
+
+/**
+ * Persist the current progress of a task to the configured task store.
+ * Checkpointing is best effort, a failing store should never take the task down with it.
+ */
+export const checkpointTask = async <T>(
+  ctx: AgentCtx<T>,
+  taskState: TaskState,
+  page: Page,
+  params?: TaskParams,
+): Promise<void> => {
+  if (!ctx.taskStore) {
+    return;
+  }
+  try {
+    let storageState: StorageState | undefined;
+    try {
+      storageState = await page.context().storageState();
+    } catch {
+      // The context may already be closed when the task is wrapping up
+      storageState = undefined;
+    }
+    const snapshot: TaskSnapshot = {
+      id: taskState.id,
+      task: taskState.task,
+      status: taskState.status,
+      steps: taskState.steps,
+      history: taskState.history,
+      trace: taskState.trace,
+      plan: taskState.plan,
+      verification: taskState.verification,
+      // Secrets are never persisted, they have to be added to the agent again before resuming
+      variables: Object.fromEntries(
+        Object.entries(ctx.variables).filter(
+          ([, variable]) => !variable.secret,
+        ),
+      ),
+      url: page.isClosed() ? "" : page.url(),
+      storageState,
+      params: { ...pick(params, SNAPSHOT_PARAMS), debugDir: ctx.debugDir },
+      output: taskState.output,
+      error: taskState.error,
+      updatedAt: new Date().toISOString(),
+    };
+    await ctx.taskStore.save(snapshot);
+  } catch (error) {
+    console.error(`Failed to checkpoint task ${taskState.id}:`, error);
+  }
+};
+
+/**
+ * Restore cookies and local storage captured in a task snapshot into a browser context
+ * @param context The browser context to restore into
+ * @param storageState The storage state captured by the checkpoint
+ */
+export const restoreStorageState = async (
+  context: BrowserContext,
+  storageState: StorageState,
+): Promise<void> => {
+  if (storageState.cookies.length > 0) {
+    await context.addCookies(storageState.cookies);
+  }
+  if (storageState.origins.length > 0) {
+    // Local storage can only be written from within the page, so seed it before any page script runs
+    await context.addInitScript((origins) => {
+      const entry = origins.find(
+        (origin) => origin.origin === window.location.origin,
+      );
+      if (!entry) {
+        return;
+      }
+      for (const { name, value } of entry.localStorage) {
+        if (window.localStorage.getItem(name) === null) {
+          window.localStorage.setItem(name, value);
+        }
+      }
+    }, storageState.origins);
+  }
+};
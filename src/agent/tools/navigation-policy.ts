@@ -0,0 +1,109 @@
+import { BrowserContext, Route } from "playwright";
+import { minimatch } from "minimatch";
+import { NavigationPolicyConfig } from "@/types/config";
+
+export interface NavigationViolation {
+  url: string;
+  reason: string;
+}
+
+// Browser internal URLs (about:blank, data:, blob:...) never leave the browser
+const ENFORCED_PROTOCOLS = new Set(["http:", "https:"]);
+
+const matchesPattern = (url: URL, pattern: string) =>
+  minimatch(pattern.includes("/") ? url.href : url.hostname, pattern, {
+    nocase: true,
+    dot: true,
+  });
+
+/**
+ * Allowlist / denylist of the URLs the agent may navigate to.
+ * Navigations are checked by actions before they navigate, and enforced on the browser context through routing
+ * so that links, redirects and scripts cannot bypass the policy.
+ */
+export class NavigationPolicy {
+  // Kept per browser context, tasks running at the same time each get their own violations
+  private violations = new WeakMap<BrowserContext, NavigationViolation[]>();
+
+  constructor(private config: NavigationPolicyConfig) {}
+
+  /**
+   * Check a URL against the policy
+   * @returns Why the URL is blocked, or null if it is allowed
+   */
+  getViolation(url: string): string | null {
+    let parsedUrl: URL;
+    try {
+      parsedUrl = new URL(url);
+    } catch {
+      return null;
+    }
+    if (!ENFORCED_PROTOCOLS.has(parsedUrl.protocol)) {
+      return null;
+    }
+    const blockedPattern = this.config.blockedUrls?.find((pattern) =>
+      matchesPattern(parsedUrl, pattern),
+    );
+    if (blockedPattern) {
+      return `${url} matches the blocked pattern "${blockedPattern}"`;
+    }
+    if (
+      this.config.allowedUrls &&
+      this.config.allowedUrls.length > 0 &&
+      !this.config.allowedUrls.some((pattern) =>
+        matchesPattern(parsedUrl, pattern),
+      )
+    ) {
+      return `${url} does not match any of the allowed patterns`;
+    }
+    return null;
+  }
+
+  /**
+   * Check a URL and record it as a violation if it is blocked
+   * @param url The URL to check
+   * @param context The browser context navigating to the URL
+   * @returns Why the URL is blocked, or null if it is allowed
+   */
+  enforce(url: string, context: BrowserContext): string | null {
+    const reason = this.getViolation(url);
+    if (reason) {
+      this.violations.set(context, [
+        ...(this.violations.get(context) ?? []),
+        { url, reason },
+      ]);
+    }
+    return reason;
+  }
+
+  /**
+   * Get the violations recorded in a browser context since the last call
+   */
+  drainViolations(context: BrowserContext): NavigationViolation[] {
+    const violations = this.violations.get(context) ?? [];
+    this.violations.delete(context);
+    return violations;
+  }
+
+  private handleRoute = async (route: Route) => {
+    const request = route.request();
+    // Only top level navigations are restricted, subresources and iframes of allowed pages still load
+    if (
+      request.isNavigationRequest() &&
+      request.frame().parentFrame() === null &&
+      this.enforce(request.url(), request.frame().page().context())
+    ) {
+      await route.abort("blockedbyclient");
+      return;
+    }
+    await route.fallback();
+  };
+
+  async attach(context: BrowserContext) {
+    await context.route("**/*", this.handleRoute);
+  }
+
+  async detach(context: BrowserContext) {
+    await context.unroute("**/*", this.handleRoute);
+  }
+}
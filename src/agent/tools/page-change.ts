@@ -0,0 +1,46 @@
+import { Page } from "playwright";
+import { ActionType } from "@/types";
+import { DOMState } from "@/context-providers/dom/types";
+import { getLocator } from "../actions/utils";
+
+export interface StepPageState {
+  page: Page;
+  url: string;
+  domState: DOMState;
+}
+
+/**
+ * Check whether the page the step was planned against changed in a way that makes the next action stale:
+ * the agent moved to another tab, the page navigated, or the element the action references is gone.
+ * @param stepState The page, URL and DOM state the actions of the step were planned against
+ * @param currentPage The page the agent is currently looking at
+ * @param nextAction The action about to run
+ * @returns A description of the change, or null if the action can still run safely
+ */
+export const detectPageChange = async (
+  stepState: StepPageState,
+  currentPage: Page,
+  nextAction: ActionType,
+): Promise<string | null> => {
+  if (currentPage !== stepState.page) {
+    return `the current tab changed to ${currentPage.url()}`;
+  }
+  if (currentPage.url() !== stepState.url) {
+    return `the page navigated from ${stepState.url} to ${currentPage.url()}`;
+  }
+
+  const index = (nextAction.params as { index?: unknown }).index;
+  if (typeof index !== "number" || !stepState.domState.elements.has(index)) {
+    return null;
+  }
+  const locator = getLocator(stepState, index);
+  try {
+    if (locator && (await locator.count()) === 0) {
+      return `element ${index} is no longer attached to the page`;
+    }
+  } catch {
+    // The page is in the middle of changing, e.g. a frame of the element detached
+    return `element ${index} could not be found on the page anymore`;
+  }
+  return null;
+};
@@ -0,0 +1,65 @@
+import { Page } from "playwright";
+import { z } from "zod";
+import { PlanItem } from "@/types";
+import { retry } from "@/utils/retry";
+import { invokeStructuredOutput } from "../llms/structured-output";
+import { UsageTracker } from "../llms/usage";
+import { routeModel } from "../llms/router";
+import { SYSTEM_PROMPT_PLANNER } from "../messages/system-prompt";
+import { AgentCtx } from "./types";
+
+const PlanOutput = z.object({
+  subgoals: z
+    .array(z.string())
+    .describe("The subgoals of the task, in the order they should be done"),
+});
+
+/**
+ * Break a task into a checklist of subgoals with the planner model
+ * @param ctx The context of the task
+ * @param task The task to plan
+ * @param page The page the task starts from
+ * @param usage Tracker recording the usage of the planning call
+ * @param signal Aborts the planning call
+ * @returns The plan, with every subgoal still to do
+ */
+export const createTaskPlan = async <T>(
+  ctx: AgentCtx<T>,
+  task: string,
+  page: Page,
+  usage?: UsageTracker,
+  signal?: AbortSignal,
+): Promise<PlanItem[]> => {
+  const model = routeModel(ctx, "planner");
+  const output = await retry({
+    func: () =>
+      invokeStructuredOutput({
+        llm: model.llm,
+        schema: PlanOutput,
+        messages: [
+          { role: "system", content: SYSTEM_PROMPT_PLANNER },
+          {
+            role: "user",
+            content: `=== Final Goal ===\n${task}\n=== Current URL ===\n${page.url()}\n`,
+          },
+        ],
+        usage,
+        role: "planner",
+        capabilities: model.capabilities,
+        signal,
+      }),
+    signal,
+  });
+  return output.subgoals.map((description) => ({ description, done: false }));
+};
+
+/**
+ * Format a plan as a numbered checklist
+ */
+export const formatPlan = (plan: PlanItem[]): string =>
+  plan
+    .map(
+      (item, index) =>
+        `[${item.done ? "x" : " "}] ${index + 1}. ${item.description}`,
+    )
+    .join("\n");
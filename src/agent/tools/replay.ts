@@ -0,0 +1,253 @@
+import { Page } from "playwright";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import {
+  ActionContext,
+  ActionOutput,
+  ActionType,
+  AgentActionDefinition,
+} from "@/types";
+import { ApprovalPolicyConfig } from "@/types/config";
+import { HyperAgentEventEmitter } from "@/utils/event-emitter";
+import {
+  ReplayActionResult,
+  ReplayParams,
+  ReplayResult,
+  TaskTrace,
+  TraceElement,
+} from "@/types/agent/trace";
+import { HyperVariable } from "@/types/agent/types";
+import { ModelCapabilities } from "@/types/agent/models";
+import { DOMState, InteractiveElement } from "@/context-providers/dom/types";
+import { PageSettleOptions, waitForPageSettled } from "@/utils/page-settle";
+import { getAbortMessage, raceAbort } from "@/utils/abort";
+import { UsageTracker } from "../llms/usage";
+import { ModelRouter } from "../llms/router";
+import { getLocator, getLocatorString } from "../actions/utils";
+import { TabManager } from "./tabs";
+import { NavigationPolicy } from "./navigation-policy";
+import { approveAction } from "./approval";
+
+export interface ReplayCtx {
+  llm: BaseChatModel;
+  modelCapabilities?: ModelCapabilities;
+  models?: ModelRouter;
+  actions: Array<AgentActionDefinition>;
+  tokenLimit: number;
+  variables: Record<string, HyperVariable>;
+  usage?: UsageTracker;
+  pageSettle?: PageSettleOptions;
+  navigationPolicy?: NavigationPolicy;
+  /**
+   * Replayed actions go through the same approval gate as the actions of a task
+   */
+  approvalPolicy?: ApprovalPolicyConfig;
+  emitter?: HyperAgentEventEmitter;
+  /**
+   * Finds an element from its description with the LLM, used when a recorded locator no longer matches
+   */
+  findElement: (
+    description: string,
+    page: Page,
+    signal?: AbortSignal,
+  ) => Promise<{ domState: DOMState; index: number } | null>;
+}
+
+// Tab actions address tabs by index themselves
+const TAB_ACTIONS = new Set(["switchTab", "openTab", "closeTab"]);
+
+const toInteractiveElement = (element: TraceElement): InteractiveElement => ({
+  // Only the locators are needed to act on the element
+  element: {} as HTMLElement,
+  rect: { x: 0, y: 0, width: 0, height: 0 } as DOMRect,
+  highlightIndex: element.index,
+  xpath: element.xpath,
+  cssPath: element.cssPath,
+  isUnderShadowRoot: element.isUnderShadowRoot,
+  frameSelectors: element.frameSelectors,
+});
+
+const applyVariableUpdates = (
+  variables: Record<string, HyperVariable>,
+  updates?: HyperVariable[],
+) => {
+  for (const update of updates ?? []) {
+    // Traces only hold references to secrets, the actual value comes from the agent
+    if (update.secret) {
+      continue;
+    }
+    variables[update.key] = {
+      key: update.key,
+      value: update.value,
+      description:
+        update.description || variables[update.key]?.description || "",
+    };
+  }
+};
+
+/**
+ * Re-execute the actions of a recorded trace without asking the LLM what to do.
+ * The LLM is only used to find elements again when their recorded locator no longer matches,
+ * and to re-run extractions when `rerunExtractions` is set.
+ * Replay stops at the first action that fails.
+ */
+export const replayTrace = async (
+  ctx: ReplayCtx,
+  page: Page,
+  trace: TaskTrace,
+  params: ReplayParams = {},
+): Promise<ReplayResult> => {
+  // Variables set on the agent take precedence over the ones recorded, so inputs can be changed between runs
+  for (const variable of trace.variables) {
+    ctx.variables[variable.key] ??= { ...variable };
+  }
+
+  const tabs = new TabManager(page);
+  const results: ReplayActionResult[] = [];
+  let success = true;
+  try {
+    if (
+      (params.navigateToStart ?? true) &&
+      trace.startUrl &&
+      trace.startUrl !== "about:blank"
+    ) {
+      await page.goto(trace.startUrl);
+      await waitForPageSettled(page, ctx.pageSettle);
+    }
+
+    for (const tracedAction of trace.actions) {
+      // Failed actions had no effect worth reproducing, and completing needs no browser interaction
+      if (!tracedAction.success || tracedAction.type === "complete") {
+        continue;
+      }
+      const result: ReplayActionResult = {
+        step: tracedAction.step,
+        substep: tracedAction.substep,
+        type: tracedAction.type,
+        success: false,
+        message: "",
+        healed: false,
+      };
+      results.push(result);
+
+      if (params.signal?.aborted) {
+        result.message = `Replay aborted: ${getAbortMessage(params.signal)}`;
+        success = false;
+        break;
+      }
+
+      if (tracedAction.variableUpdates?.length && !params.rerunExtractions) {
+        applyVariableUpdates(ctx.variables, tracedAction.variableUpdates);
+        result.success = true;
+        result.reusedRecording = true;
+        result.message = `Reused recorded values of ${tracedAction.variableUpdates.map((variable) => variable.key).join(", ")}`;
+        continue;
+      }
+
+      const actionDefinition = ctx.actions.find(
+        (action) => action.type === tracedAction.type,
+      );
+      if (!actionDefinition) {
+        result.message = `Action type "${tracedAction.type}" is not registered on the agent`;
+        success = false;
+        break;
+      }
+
+      if (
+        !TAB_ACTIONS.has(tracedAction.type) &&
+        tracedAction.tabIndex >= 0 &&
+        tracedAction.tabIndex < tabs.count &&
+        tracedAction.tabIndex !== tabs.currentIndex
+      ) {
+        await tabs.switchTab(tracedAction.tabIndex);
+      }
+
+      let domState: DOMState = {
+        elements: new Map(),
+        domState: "",
+        screenshot: "",
+      };
+      let actionParams = tracedAction.params;
+      if (tracedAction.element) {
+        const { index, fallbackDescription } = tracedAction.element;
+        domState.elements.set(
+          index,
+          toInteractiveElement(tracedAction.element),
+        );
+        const locator = getLocator({ page: tabs.currentPage, domState }, index);
+        if (!locator || (await locator.count()) === 0) {
+          const found = fallbackDescription
+            ? await ctx.findElement(
+                fallbackDescription,
+                tabs.currentPage,
+                params.signal,
+              )
+            : null;
+          if (!found) {
+            result.message = `Element ${tracedAction.element.locator} not found and could not be healed`;
+            success = false;
+            break;
+          }
+          domState = found.domState;
+          actionParams = { ...actionParams, index: found.index };
+          result.healed = true;
+          result.healedLocator =
+            getLocatorString({ domState }, found.index) ?? undefined;
+        }
+      }
+
+      const actionCtx: ActionContext = {
+        page: tabs.currentPage,
+        domState,
+        llm: ctx.llm,
+        modelCapabilities: ctx.modelCapabilities,
+        models: ctx.models,
+        tokenLimit: ctx.tokenLimit,
+        variables: ctx.variables,
+        usage: ctx.usage,
+        tabs,
+        navigationPolicy: ctx.navigationPolicy,
+        signal: params.signal,
+      };
+      const rejectedOutput = ctx.approvalPolicy
+        ? await approveAction(
+            ctx.approvalPolicy,
+            { type: tracedAction.type, params: actionParams } as ActionType,
+            actionCtx,
+            {
+              taskId: trace.taskId,
+              step: tracedAction.step,
+              substep: tracedAction.substep,
+            },
+            ctx.emitter,
+          )
+        : null;
+      // Actions ignoring the signal stop being waited for once it aborts
+      const actionOutput: ActionOutput =
+        rejectedOutput ??
+        (await raceAbort(
+          actionDefinition.run(actionCtx, actionParams),
+          params.signal,
+        ).catch((error) => ({
+          success: false,
+          message: `Action ${tracedAction.type} failed: ${error}`,
+        })));
+      applyVariableUpdates(ctx.variables, actionOutput.variableUpdates);
+      result.success = actionOutput.success;
+      result.message = actionOutput.message;
+      if (!actionOutput.success) {
+        success = false;
+        break;
+      }
+      await waitForPageSettled(tabs.currentPage, ctx.pageSettle);
+    }
+  } finally {
+    tabs.dispose();
+  }
+
+  return {
+    success,
+    actions: results,
+    healedActions: results.filter((result) => result.healed),
+    variables: ctx.variables,
+  };
+};
@@ -0,0 +1,134 @@
+import crypto from "crypto";
+import { Page } from "playwright";
+import {
+  ActionType,
+  RecoveryStrategy,
+  StagnationConfig,
+  StagnationIntervention,
+} from "@/types";
+import { DOMState } from "@/context-providers/dom/types";
+
+const DEFAULT_MAX_REPEATS = 3;
+const DEFAULT_MAX_FAILURES = 3;
+const DEFAULT_RECOVERIES: RecoveryStrategy[] = [
+  "warn",
+  "think",
+  "escalate",
+  "goBack",
+];
+// Number of recent steps searched for repeats, long enough to catch cycles over a few pages
+const FINGERPRINT_WINDOW = 10;
+
+const RECOVERY_MESSAGES: Record<RecoveryStrategy, string> = {
+  warn: "Do not repeat the same actions, try a different approach.",
+  think:
+    "Use thinkAction to reconsider your approach before taking any other action.",
+  reload: "The page was reloaded, review its new state before acting.",
+  goBack:
+    "The browser went back to the previous page, review its state before acting.",
+  escalate: "Try a different approach.",
+};
+
+/**
+ * Fingerprint a step from the page it was planned against and the actions it ran.
+ * The descriptions of the actions are left out, they vary between otherwise identical steps.
+ */
+export const fingerprintStep = (
+  url: string,
+  domState: DOMState,
+  actions: ActionType[],
+): string =>
+  crypto
+    .createHash("sha1")
+    .update(
+      JSON.stringify({
+        url,
+        dom: domState.domState,
+        actions: actions.map(({ type, params }) => ({ type, params })),
+      }),
+    )
+    .digest("hex");
+
+/**
+ * Spots tasks stuck repeating the same steps or failing their actions, and picks the recovery to apply.
+ * Successive detections escalate through the configured recoveries, until a step moves the task again.
+ */
+export class StagnationDetector {
+  private fingerprints: string[] = [];
+  private detections = 0;
+
+  constructor(private config: StagnationConfig = {}) {}
+
+  /**
+   * Record a finished step
+   * @param fingerprint Fingerprint of the step, see `fingerprintStep`
+   * @param consecutiveFailures Number of failed action outputs in a row up to the end of the step, skipped actions left out
+   * @returns The intervention to apply, or null if the task is moving
+   */
+  check(
+    fingerprint: string,
+    consecutiveFailures: number,
+  ): StagnationIntervention | null {
+    this.fingerprints = [...this.fingerprints, fingerprint].slice(
+      -FINGERPRINT_WINDOW,
+    );
+    const repeats = this.fingerprints.filter(
+      (previous) => previous === fingerprint,
+    ).length;
+
+    let reason: StagnationIntervention["reason"];
+    let description: string;
+    if (repeats >= (this.config.maxRepeats ?? DEFAULT_MAX_REPEATS)) {
+      reason = "loop";
+      description = `the same actions were run ${repeats} times on the same page`;
+    } else if (
+      consecutiveFailures >= (this.config.maxFailures ?? DEFAULT_MAX_FAILURES)
+    ) {
+      reason = "failures";
+      description = `the last ${consecutiveFailures} actions failed`;
+    } else {
+      this.detections = 0;
+      return null;
+    }
+
+    const recoveries = this.config.recoveries?.length
+      ? this.config.recoveries
+      : DEFAULT_RECOVERIES;
+    const strategy =
+      recoveries[Math.min(this.detections, recoveries.length - 1)];
+    this.detections++;
+    return { reason, description, strategy };
+  }
+}
+
+/**
+ * Apply the recoveries that act on the page. The other recoveries change how the next step runs.
+ * @returns The intervention, with the error of the recovery if it could not be applied
+ */
+export const applyPageRecovery = async (
+  intervention: StagnationIntervention,
+  page: Page,
+): Promise<StagnationIntervention> => {
+  try {
+    if (intervention.strategy === "reload") {
+      await page.reload();
+    } else if (intervention.strategy === "goBack" && !(await page.goBack())) {
+      return { ...intervention, error: "there is no previous page" };
+    }
+    return intervention;
+  } catch (error) {
+    return { ...intervention, error: String(error) };
+  }
+};
+
+/**
+ * Format the warning given to the model in the step after an intervention
+ */
+export const formatInterventionWarning = (
+  intervention: StagnationIntervention,
+): string =>
+  `You are stuck, ${intervention.description}. ${
+    intervention.error
+      ? `${RECOVERY_MESSAGES.warn} (${intervention.strategy} failed: ${intervention.error})`
+      : RECOVERY_MESSAGES[intervention.strategy]
+  }`;
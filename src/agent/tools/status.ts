@@ -0,0 +1,27 @@
+import { TaskState, TaskStatus } from "@/types";
+import { HyperAgentEventEmitter } from "@/utils/event-emitter";
+
+/**
+ * Update the status of a task and notify listeners about the change
+ * @param taskState The task to update
+ * @param status The new status of the task
+ * @param emitter Emitter of the task, receives a statusChanged event
+ * @returns The new status of the task
+ */
+export const updateTaskStatus = (
+  taskState: TaskState,
+  status: TaskStatus,
+  emitter?: HyperAgentEventEmitter,
+): TaskStatus => {
+  const previousStatus = taskState.status;
+  if (previousStatus === status) {
+    return status;
+  }
+  taskState.status = status;
+  emitter?.emit("statusChanged", {
+    taskId: taskState.id,
+    status,
+    previousStatus,
+  });
+  return status;
+};
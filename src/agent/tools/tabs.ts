@@ -0,0 +1,105 @@
+import { BrowserContext, Page } from "playwright";
+
+export interface TabInfo {
+  index: number;
+  url: string;
+  title: string;
+  active: boolean;
+}
+
+/**
+ * Tracks the tabs of a browser context and which one the agent is currently looking at.
+ * Tabs are indexed in the order of `context.pages()`, so the indexes can be reused in generated scripts.
+ */
+export class TabManager {
+  private context: BrowserContext;
+  private current: Page;
+
+  constructor(page: Page) {
+    this.current = page;
+    this.context = page.context();
+    this.context.on("page", this.onPage);
+  }
+
+  // New tabs (target=_blank links, popups, openTab) take the focus of the agent
+  private onPage = (page: Page) => {
+    this.current = page;
+  };
+
+  get currentPage(): Page {
+    if (this.current.isClosed()) {
+      const pages = this.context.pages();
+      if (pages.length > 0) {
+        this.current = pages[pages.length - 1];
+      }
+    }
+    return this.current;
+  }
+
+  get currentIndex(): number {
+    return this.context.pages().indexOf(this.currentPage);
+  }
+
+  get count(): number {
+    return this.context.pages().length;
+  }
+
+  async getTabs(): Promise<TabInfo[]> {
+    const currentPage = this.currentPage;
+    return Promise.all(
+      this.context.pages().map(async (page, index) => ({
+        index,
+        url: page.url(),
+        title: await page.title().catch(() => ""),
+        active: page === currentPage,
+      })),
+    );
+  }
+
+  private getPage(index: number): Page {
+    const page = this.context.pages()[index];
+    if (!page) {
+      throw new Error(
+        `Tab ${index} does not exist, there are ${this.count} open tabs`,
+      );
+    }
+    return page;
+  }
+
+  async switchTab(index: number): Promise<Page> {
+    const page = this.getPage(index);
+    await page.bringToFront();
+    this.current = page;
+    return page;
+  }
+
+  /**
+   * Open a new tab and make it the current one
+   * @param url URL to navigate the tab to
+   * @param timeout Timeout of the navigation, the Playwright default if not set
+   */
+  async openTab(url?: string, timeout?: number): Promise<Page> {
+    const page = await this.context.newPage();
+    this.current = page;
+    if (url) {
+      await page.goto(url, { timeout });
+    }
+    return page;
+  }
+
+  async closeTab(index: number): Promise<Page> {
+    if (this.count <= 1) {
+      throw new Error("Cannot close the last open tab");
+    }
+    const page = this.getPage(index);
+    await page.close();
+    // Falls back to the most recent tab if the active one was closed
+    const currentPage = this.currentPage;
+    await currentPage.bringToFront();
+    return currentPage;
+  }
+
+  dispose() {
+    this.context.off("page", this.onPage);
+  }
+}
@@ -0,0 +1,89 @@
+import { Page } from "playwright";
+import { ActionContext, ActionOutput, ActionType, TaskState } from "@/types";
+import { TaskTrace, TraceElement } from "@/types/agent/trace";
+import { HyperVariable } from "@/types/agent/types";
+import { getLocatorString } from "../actions/utils";
+
+export const createTaskTrace = (
+  taskState: TaskState,
+  page: Page,
+  variables: Record<string, HyperVariable>,
+): TaskTrace => ({
+  version: 1,
+  taskId: taskState.id,
+  task: taskState.task,
+  startUrl: page.url(),
+  // Secret values are left out, replays use the secrets added to the agent
+  variables: structuredClone(
+    Object.values(variables).filter((variable) => !variable.secret),
+  ),
+  actions: [],
+  createdAt: new Date().toISOString(),
+});
+
+const getTraceElement = (
+  actionCtx: ActionContext,
+  params: Record<string, unknown>,
+): TraceElement | undefined => {
+  if (typeof params.index !== "number") {
+    return undefined;
+  }
+  const element = actionCtx.domState.elements.get(params.index);
+  const locator = getLocatorString(actionCtx, params.index);
+  if (!element || !locator) {
+    return undefined;
+  }
+  return {
+    index: params.index,
+    xpath: element.xpath,
+    cssPath: element.cssPath,
+    isUnderShadowRoot: element.isUnderShadowRoot,
+    frameSelectors: element.frameSelectors,
+    locator,
+    fallbackDescription:
+      typeof params.indexElementDescription === "string"
+        ? params.indexElementDescription
+        : undefined,
+  };
+};
+
+/**
+ * Append an action to the trace of a task, along with what is needed to replay it without the LLM
+ */
+export const recordTraceAction = (
+  trace: TaskTrace | undefined,
+  {
+    action,
+    actionCtx,
+    actionOutput,
+    step,
+    substep,
+    tabIndex,
+    url,
+  }: {
+    action: ActionType;
+    actionCtx: ActionContext;
+    actionOutput: ActionOutput;
+    step: number;
+    substep: number;
+    tabIndex: number;
+    url: string;
+  },
+) => {
+  if (!trace) {
+    return;
+  }
+  const params = structuredClone(action.params) as Record<string, unknown>;
+  trace.actions.push({
+    step,
+    substep,
+    type: action.type,
+    params,
+    tabIndex,
+    url,
+    element: getTraceElement(actionCtx, params),
+    variableUpdates: actionOutput.variableUpdates,
+    success: actionOutput.success,
+    message: actionOutput.message,
+  });
+};
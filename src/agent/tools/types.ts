@@ -3,9 +3,17 @@ import { MCPClient } from "../mcp/client";
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { HyperVariable } from "@/types/agent/types";
 import { HyperAgentConfig } from "@/types";
+import TaskStore from "@/types/task-store/types";
+import { HyperAgentEventEmitter } from "@/utils/event-emitter";
+import { UsageTracker } from "../llms/usage";
+import { ModelRouter } from "../llms/router";
+import { NavigationPolicy } from "./navigation-policy";
+import { ModelCapabilities } from "@/types/agent/models";
 
 export type AgentCtx<T> = {
   llm: BaseChatModel;
+  modelCapabilities?: ModelCapabilities;
+  models?: ModelRouter;
   actions: Array<AgentActionDefinition>;
   debug?: boolean;
   generateScript?: boolean;
@@ -14,5 +22,9 @@ export type AgentCtx<T> = {
   tokenLimit: number;
   mcpClient?: MCPClient;
   variables: Record<string, HyperVariable>;
+  taskStore?: TaskStore;
+  emitter?: HyperAgentEventEmitter;
+  usage?: UsageTracker;
+  navigationPolicy?: NavigationPolicy;
   agentConfig?: HyperAgentConfig<T extends "Local" ? "Local" : "Hyperbrowser">;
 };
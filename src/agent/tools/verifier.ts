@@ -0,0 +1,141 @@
+import { Page } from "playwright";
+import { z } from "zod";
+import { TaskState, VerificationConfig } from "@/types";
+import { raceAbort, getAbortMessage } from "@/utils/abort";
+import { retry } from "@/utils/retry";
+import { redactSecrets } from "@/utils/secrets";
+import { invokeStructuredOutput } from "../llms/structured-output";
+import { UsageTracker } from "../llms/usage";
+import { routeModel } from "../llms/router";
+import { SYSTEM_PROMPT_VERIFIER } from "../messages/system-prompt";
+import { AgentCtx } from "./types";
+
+const DEFAULT_MAX_VERIFICATION_RETRIES = 2;
+
+const VerifierOutput = z.object({
+  thoughts: z
+    .string()
+    .describe("What the page and the answer show about each part of the goal"),
+  verified: z
+    .boolean()
+    .describe("Whether the final goal is completed and the answer is correct"),
+  reasons: z
+    .array(z.string())
+    .describe("What is missing or wrong, empty when the goal is completed"),
+});
+
+/**
+ * Check with the validator model whether a task is really completed
+ * @param ctx The context of the task
+ * @param task The task to check
+ * @param answer The output of the complete action
+ * @param page The page the task ended on
+ * @param usage Tracker recording the usage of the verification call
+ * @param signal Aborts the verification
+ */
+export const verifyCompletion = async <T>(
+  ctx: AgentCtx<T>,
+  task: string,
+  answer: string,
+  page: Page,
+  usage?: UsageTracker,
+  signal?: AbortSignal,
+): Promise<z.infer<typeof VerifierOutput>> => {
+  const model = routeModel(ctx, "validator");
+  const variables = Object.values(ctx.variables);
+  const context = `=== Final Goal ===\n${task}\n=== Answer ===\n${answer}\n=== Variables ===\n${
+    variables.length > 0
+      ? variables
+          .map(
+            (variable) =>
+              `<<${variable.key}>> = ${variable.secret ? "(secret)" : variable.value}`,
+          )
+          .join("\n")
+      : "No variables extracted."
+  }\n=== Current URL ===\n${page.url()}\n`;
+  const screenshot = model.capabilities.vision
+    ? (await raceAbort(page.screenshot(), signal)).toString("base64")
+    : undefined;
+  const messages = redactSecrets(
+    [
+      { role: "system", content: SYSTEM_PROMPT_VERIFIER },
+      {
+        role: "user",
+        content: screenshot
+          ? [
+              { type: "text", text: context },
+              {
+                type: "image_url",
+                image_url: { url: `data:image/png;base64,${screenshot}` },
+              },
+            ]
+          : context,
+      },
+    ],
+    ctx.variables,
+  );
+  return retry({
+    func: () =>
+      invokeStructuredOutput({
+        llm: model.llm,
+        schema: VerifierOutput,
+        messages,
+        usage,
+        role: "validator",
+        capabilities: model.capabilities,
+        signal,
+      }),
+    signal,
+  });
+};
+
+/**
+ * Verify a completion of a task and record the verdict on the task.
+ * Verification is best effort, a failing verifier accepts the completion, unless the verification was aborted.
+ * @returns The message sent back to the agent when the completion is rejected, or null if the task can complete
+ */
+export const checkTaskCompletion = async <T>(
+  ctx: AgentCtx<T>,
+  taskState: TaskState,
+  answer: string,
+  page: Page,
+  config: VerificationConfig,
+  usage?: UsageTracker,
+  signal?: AbortSignal,
+): Promise<string | null> => {
+  const rejections = taskState.verification?.rejections ?? 0;
+  let verdict: z.infer<typeof VerifierOutput>;
+  try {
+    verdict = await verifyCompletion(
+      ctx,
+      taskState.task,
+      answer,
+      page,
+      usage,
+      signal,
+    );
+  } catch (error) {
+    if (signal?.aborted) {
+      return `Completion could not be verified: ${getAbortMessage(signal)}. Complete the task again.`;
+    }
+    console.error(
+      `Failed to verify completion of task ${taskState.id}:`,
+      error,
+    );
+    return null;
+  }
+  taskState.verification = {
+    verified: verdict.verified,
+    reasons: verdict.verified ? [] : verdict.reasons,
+    rejections: verdict.verified ? rejections : rejections + 1,
+  };
+  if (
+    verdict.verified ||
+    rejections >= (config.maxRetries ?? DEFAULT_MAX_VERIFICATION_RETRIES)
+  ) {
+    return null;
+  }
+  return `Completion rejected by the verifier: ${
+    verdict.reasons.join("; ") || "the task is not completed"
+  }. Keep working on the task, and complete it again once this is resolved.`;
+};
@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 import "dotenv/config";
 import fs from "node:fs";
+import crypto from "node:crypto";
 import { Command } from "commander";
 import * as inquirer from "@inquirer/prompts";
 import ora from "ora";
@@ -16,11 +17,19 @@ import {
   ActionType,
   AgentOutput,
   AgentStep,
+  ApprovalDecision,
+  ApprovalRequest,
+  PlanUpdatedEvent,
   Task,
   TaskOutput,
   TaskStatus,
 } from "@/types";
 import { HyperagentError } from "@/agent/error";
+import {
+  createMcpSseServer,
+  createTaskServer,
+  startMcpStdioServer,
+} from "@/server";
 import { SessionDetail } from "@hyperbrowser/sdk/types";
 
 const program = new Command();
@@ -40,6 +49,18 @@ program
   .option("-f, --file <file path>", "Path to a file containing a command")
   .option("-m, --mcp <mcp config file>", "Path to a file containing mcp config")
   .option("--hyperbrowser", "Use Hyperbrowser for the browser provider")
+  .option(
+    "-a, --approve",
+    "Ask for approval before purchases, form submissions and MCP tool calls",
+  )
+  .option(
+    "-p, --plan",
+    "Plan the task first and show progress against the plan",
+  )
+  .option(
+    "--verify",
+    "Check that the task is really done before accepting its completion",
+  )
   .action(async function () {
     const options = this.opts();
     const debug = (options.debug as boolean) || false;
@@ -47,6 +68,9 @@ program
     let taskDescription = (options.command as string) || undefined;
     const filePath = (options.file as string) || undefined;
     const mcpPath = (options.mcp as string) || undefined;
+    const requireApproval = (options.approve as boolean) || false;
+    const planning = (options.plan as boolean) || false;
+    const verification = (options.verify as boolean) ? {} : undefined;
 
     console.log(chalk.blue("HyperAgent CLI"));
     currentSpinner.info(
@@ -69,9 +93,41 @@ program
         process.env.HYPERBROWSER_API_KEY = apiKey; // Set it for the current process
       }
 
+      let passwordCount = 0;
       const agent = new HyperAgent({
         debug: debug,
         browserProvider: useHB ? "Hyperbrowser" : "Local",
+        approvalPolicy: requireApproval
+          ? {
+              mcpTools: true,
+              requestApproval: async (
+                request: ApprovalRequest,
+              ): Promise<ApprovalDecision> => {
+                const currentText = currentSpinner.text;
+                try {
+                  currentSpinner.stop();
+                  currentSpinner.clear();
+                  console.log(
+                    `[${chalk.yellow(request.action.type)}] ${agent.pprintAction(request.action)}\n  ${chalk.gray(request.reasons.join(", "))}`,
+                  );
+                  const approved = await inquirer.confirm({
+                    message: "Allow HyperAgent to perform this action?",
+                  });
+                  if (approved) {
+                    return { approved };
+                  }
+                  const reason = await inquirer.input({
+                    message: "What should HyperAgent do instead? (optional)",
+                  });
+                  return { approved, reason: reason || undefined };
+                } finally {
+                  currentSpinner.start(currentText);
+                  process.stdin.setRawMode(true);
+                  process.stdin.resume();
+                }
+              },
+            }
+          : undefined,
         customActions: [
           UserInteractionAction(
             async ({ message, kind, choices }): Promise<ActionOutput> => {
@@ -97,17 +153,23 @@ program
                     message: `User responded with "${response}"`,
                   };
                 } else if (kind === "password") {
-                  console.warn(
-                    chalk.red(
-                      "Providing passwords to LLMs can be dangerous. Passwords are passed in plain-text to the LLM and can be read by other people.",
-                    ),
-                  );
                   const response = await inquirer.password({
                     message,
                   });
+                  // Kept as a secret variable, the LLM only gets to reference it
+                  passwordCount = passwordCount + 1;
+                  const key = `user_password_${passwordCount}`;
                   return {
                     success: true,
-                    message: `User responded with password: ${response}`,
+                    message: `User provided the password, use <<${key}>> to type it`,
+                    variableUpdates: [
+                      {
+                        key,
+                        value: response,
+                        description: message,
+                        secret: true,
+                      },
+                    ],
                   };
                 } else {
                   if (!choices) {
@@ -209,6 +271,24 @@ program
         process.stdin.resume();
       };
 
+      const onPlanUpdated = ({ plan }: PlanUpdatedEvent) => {
+        const spinnerText = currentSpinner.isSpinning
+          ? currentSpinner.text
+          : undefined;
+        currentSpinner.info(
+          `[${chalk.yellow("plan")}]:\n${plan
+            .map(
+              (item, index) =>
+                `  ${item.done ? chalk.green("✔") : "○"} ${index + 1}. ${item.description}`,
+            )
+            .join("\n")}`,
+        );
+        currentSpinner = ora();
+        if (spinnerText) {
+          currentSpinner.start(spinnerText);
+        }
+      };
+
       const debugAgentOutput = (params: AgentOutput) => {
         const actions = params.actions.map((action, index, array) =>
           index < array.length - 1
@@ -232,6 +312,11 @@ program
             margin: { top: 2, left: 0, right: 0, bottom: 0 },
           }),
         );
+        if (params.verification && !params.verification.verified) {
+          currentSpinner.warn(
+            `Completion not verified: ${params.verification.reasons.join("; ")}`,
+          );
+        }
         console.log("\n");
         const continueTask = await inquirer.select({
           message: "Would you like to continue ",
@@ -253,7 +338,10 @@ program
             onStep: onStep,
             debugOnAgentOutput: debugAgentOutput,
             onComplete: onComplete,
+            planning,
+            verification,
           });
+          task.emitter.on("planUpdated", onPlanUpdated);
           task.emitter.addListener("error", (error) => {
             task.cancel();
             throw error;
@@ -290,7 +378,10 @@ program
         onStep: onStep,
         onComplete: onComplete,
         debugOnAgentOutput: debugAgentOutput,
+        planning,
+        verification,
       });
+      task.emitter.on("planUpdated", onPlanUpdated);
       task.emitter.addListener("error", (error) => {
         task.cancel();
         throw error;
@@ -310,4 +401,172 @@ program
     }
   });
 
+program
+  .command("serve")
+  .description("Start an HTTP server to run tasks through a JSON API")
+  .option("-p, --port <port>", "Port to listen on", "3000")
+  .option("--host <host>", "Host to listen on", "127.0.0.1")
+  .option(
+    "-t, --token <token>",
+    "Require requests to send this bearer token (defaults to HYPERAGENT_SERVER_TOKEN, or a generated token)",
+  )
+  .option(
+    "--allowed-hosts <hosts>",
+    "Comma separated host names the server is reached through, besides localhost",
+  )
+  .option("-d, --debug", "Enable debug mode")
+  .option("-m, --mcp <mcp config file>", "Path to a file containing mcp config")
+  .option("--hyperbrowser", "Use Hyperbrowser for the browser provider")
+  .action(async function () {
+    const options = this.opts();
+    const port = Number(options.port);
+    const host = options.host as string;
+    const givenToken =
+      (options.token as string) || process.env.HYPERAGENT_SERVER_TOKEN;
+    const token = givenToken || crypto.randomBytes(24).toString("hex");
+    const allowedHosts = ((options.allowedHosts as string) || "")
+      .split(",")
+      .map((host) => host.trim())
+      .filter(Boolean);
+    const debug = (options.debug as boolean) || false;
+    const useHB = (options.hyperbrowser as boolean) || false;
+    const mcpPath = (options.mcp as string) || undefined;
+
+    try {
+      if (!Number.isInteger(port) || port <= 0) {
+        throw new HyperagentError(`Invalid port: ${options.port}`);
+      }
+      const agent = new HyperAgent({
+        debug,
+        browserProvider: useHB ? "Hyperbrowser" : "Local",
+      });
+      if (mcpPath) {
+        const mcpConfig = JSON.parse(
+          (await fs.promises.readFile(mcpPath)).toString(),
+        );
+        await agent.initializeMCPClient({ servers: mcpConfig });
+      }
+
+      const server = createTaskServer(agent, { token, allowedHosts });
+      server.listen(port, host, () => {
+        console.log(
+          chalk.blue(`HyperAgent server listening on http://${host}:${port}`),
+        );
+        if (!givenToken) {
+          console.log(
+            chalk.yellow(
+              `No token configured, requests must send the generated token: Authorization: Bearer ${token}`,
+            ),
+          );
+        }
+      });
+
+      const shutdown = async () => {
+        console.log("\nShutting down HyperAgent server");
+        server.close();
+        await agent.closeAgent();
+        process.exit(0);
+      };
+      process.on("SIGINT", shutdown);
+      process.on("SIGTERM", shutdown);
+    } catch (err) {
+      console.log(chalk.red(err instanceof Error ? err.message : err));
+      if (debug) {
+        console.trace(err);
+      }
+      process.exit(1);
+    }
+  });
+
+program
+  .command("mcp")
+  .description("Expose HyperAgent as an MCP server")
+  .option("--transport <transport>", "Transport to use: stdio or sse", "stdio")
+  .option(
+    "-p, --port <port>",
+    "Port to listen on with the sse transport",
+    "3001",
+  )
+  .option(
+    "--host <host>",
+    "Host to listen on with the sse transport",
+    "127.0.0.1",
+  )
+  .option(
+    "-t, --token <token>",
+    "Require sse requests to send this bearer token (defaults to HYPERAGENT_SERVER_TOKEN, or a generated token)",
+  )
+  .option(
+    "--allowed-hosts <hosts>",
+    "Comma separated host names the sse server is reached through, besides localhost",
+  )
+  .option("-d, --debug", "Enable debug mode")
+  .option("--hyperbrowser", "Use Hyperbrowser for the browser provider")
+  .action(async function () {
+    const options = this.opts();
+    const transport = options.transport as string;
+    const port = Number(options.port);
+    const host = options.host as string;
+    const givenToken =
+      (options.token as string) || process.env.HYPERAGENT_SERVER_TOKEN;
+    const token = givenToken || crypto.randomBytes(24).toString("hex");
+    const allowedHosts = ((options.allowedHosts as string) || "")
+      .split(",")
+      .map((host) => host.trim())
+      .filter(Boolean);
+    const debug = (options.debug as boolean) || false;
+    const useHB = (options.hyperbrowser as boolean) || false;
+
+    try {
+      if (transport !== "stdio" && transport !== "sse") {
+        throw new HyperagentError(`Unknown transport: ${transport}`);
+      }
+      const agent = new HyperAgent({
+        debug,
+        browserProvider: useHB ? "Hyperbrowser" : "Local",
+      });
+
+      const shutdown = async () => {
+        await agent.closeAgent();
+        process.exit(0);
+      };
+      process.on("SIGINT", shutdown);
+      process.on("SIGTERM", shutdown);
+
+      if (transport === "stdio") {
+        await startMcpStdioServer(agent);
+        process.stdin.on("close", shutdown);
+        console.error(chalk.blue("HyperAgent MCP server running on stdio"));
+        return;
+      }
+      if (!Number.isInteger(port) || port <= 0) {
+        throw new HyperagentError(`Invalid port: ${options.port}`);
+      }
+      createMcpSseServer(agent, { token, allowedHosts }).listen(
+        port,
+        host,
+        () => {
+          console.log(
+            chalk.blue(
+              `HyperAgent MCP server listening on http://${host}:${port}/sse`,
+            ),
+          );
+          if (!givenToken) {
+            console.log(
+              chalk.yellow(
+                `No token configured, requests must send the generated token: Authorization: Bearer ${token}`,
+              ),
+            );
+          }
+        },
+      );
+    } catch (err) {
+      console.error(chalk.red(err instanceof Error ? err.message : err));
+      if (debug) {
+        console.trace(err);
+      }
+      process.exit(1);
+    }
+  });
+
 program.parse();
@@ -0,0 +1,35 @@
+// Accessibility roles (as reported by Chrome) that are exposed to the agent
+export const INTERACTIVE_AX_ROLES = new Set([
+  "button",
+  "link",
+  "checkbox",
+  "radio",
+  "textbox",
+  "searchbox",
+  "combobox",
+  "listbox",
+  "option",
+  "menuitem",
+  "menuitemcheckbox",
+  "menuitemradio",
+  "tab",
+  "slider",
+  "spinbutton",
+  "switch",
+  "treeitem",
+  "PopUpButton",
+]);
+
+// Accessibility properties rendered as attributes in the DOM representation
+export const AX_STATE_PROPERTIES = [
+  "checked",
+  "disabled",
+  "expanded",
+  "pressed",
+  "selected",
+  "required",
+  "readonly",
+  "invalid",
+  "focused",
+  "hasPopup",
+];
@@ -0,0 +1,182 @@
+import { CDPSession, Page } from "playwright";
+import { DOMState, InteractiveElement } from "../dom/types";
+import { getElementLocatorJs } from "../dom/inject/get-element-locator";
+import { ElementLocator } from "../dom/get-element-locator";
+import { renderHighlightOverlay } from "../highlight-overlay";
+import { AX_STATE_PROPERTIES, INTERACTIVE_AX_ROLES } from "./const";
+
+interface AXValueLike {
+  value?: unknown;
+}
+
+const axValueToString = (value?: AXValueLike): string => {
+  if (value?.value === undefined || value.value === null) {
+    return "";
+  }
+  return String(value.value).trim();
+};
+
+const escapeAttribute = (value: string) => value.replace(/"/g, "&quot;");
+
+/**
+ * Maps backend node ids to their bounding box in viewport coordinates, using the layout tree of the main document
+ */
+const getNodeBounds = async (client: CDPSession) => {
+  const snapshot = await client.send("DOMSnapshot.captureSnapshot", {
+    computedStyles: [],
+  });
+  const bounds = new Map<number, DOMRect>();
+  const document = snapshot.documents[0];
+  if (!document) {
+    return bounds;
+  }
+  // Layout bounds are absolute to the document, shift them into the viewport
+  const scrollX = document.scrollOffsetX ?? 0;
+  const scrollY = document.scrollOffsetY ?? 0;
+  document.layout.nodeIndex.forEach((nodeIndex, layoutIndex) => {
+    const backendNodeId = document.nodes.backendNodeId?.[nodeIndex];
+    const [x, y, width, height] = document.layout.bounds[layoutIndex];
+    if (backendNodeId === undefined || bounds.has(backendNodeId)) {
+      return;
+    }
+    const left = x - scrollX;
+    const top = y - scrollY;
+    // Plain object instead of a DOMRect, this is what the DOM provider hands back after serialization as well
+    bounds.set(backendNodeId, {
+      x: left,
+      y: top,
+      width,
+      height,
+      top,
+      left,
+      right: left + width,
+      bottom: top + height,
+    } as DOMRect);
+  });
+  return bounds;
+};
+
+const getElementLocator = async (
+  client: CDPSession,
+  backendNodeId: number,
+): Promise<ElementLocator | null> => {
+  try {
+    const { object } = await client.send("DOM.resolveNode", {
+      backendNodeId,
+    });
+    if (!object.objectId) {
+      return null;
+    }
+    const { result } = await client.send("Runtime.callFunctionOn", {
+      functionDeclaration: getElementLocatorJs,
+      objectId: object.objectId,
+      returnByValue: true,
+    });
+    await client.send("Runtime.releaseObject", { objectId: object.objectId });
+    return (result.value as ElementLocator) ?? null;
+  } catch {
+    // Node was removed from the document between the snapshot and now
+    return null;
+  }
+};
+
+/**
+ * Builds the DOM state from the browser accessibility tree instead of scanning the DOM in the page.
+ * Elements are described by their accessibility role, name and states, and keep their backend node id.
+ */
+export const getAccessibilityDom = async (
+  page: Page,
+): Promise<DOMState | null> => {
+  const client = await page.context().newCDPSession(page);
+  try {
+    await client.send("DOM.enable");
+    await client.send("Accessibility.enable");
+    const { nodes } = await client.send("Accessibility.getFullAXTree");
+    const bounds = await getNodeBounds(client);
+    const viewport = await page.evaluate(() => ({
+      width: window.innerWidth,
+      height: window.innerHeight,
+      devicePixelRatio: window.devicePixelRatio || 1,
+    }));
+
+    const elements = new Map<number, InteractiveElement>();
+    const domRepresentation: string[] = [];
+    for (const node of nodes) {
+      const role = axValueToString(node.role);
+      if (
+        node.ignored ||
+        node.backendDOMNodeId === undefined ||
+        !INTERACTIVE_AX_ROLES.has(role)
+      ) {
+        continue;
+      }
+      const rect = bounds.get(node.backendDOMNodeId);
+      if (!rect || rect.width === 0 || rect.height === 0) {
+        continue;
+      }
+      const locator = await getElementLocator(client, node.backendDOMNodeId);
+      if (!locator) {
+        continue;
+      }
+
+      const name = axValueToString(node.name);
+      const value = axValueToString(node.value);
+      const states: Record<string, string> = {};
+      for (const property of node.properties ?? []) {
+        const propertyValue = axValueToString(property.value);
+        if (
+          AX_STATE_PROPERTIES.includes(property.name) &&
+          propertyValue &&
+          propertyValue !== "false"
+        ) {
+          states[property.name] = propertyValue;
+        }
+      }
+
+      const highlightIndex = elements.size + 1; // index range from 1 -> index
+      elements.set(highlightIndex, {
+        // Only the locators are usable outside of the page
+        element: {} as HTMLElement,
+        isUnderShadowRoot: locator.isUnderShadowRoot,
+        rect,
+        interactiveReason: `Accessibility role: ${role}`,
+        highlightIndex,
+        cssPath: locator.cssPath,
+        xpath: locator.xpath,
+        role,
+        name,
+        states,
+        backendNodeId: node.backendDOMNodeId,
+      });
+
+      let attributes = "";
+      if (value && value !== name) {
+        attributes += ` value="${escapeAttribute(value)}"`;
+      }
+      for (const [state, stateValue] of Object.entries(states)) {
+        attributes += ` ${state}="${escapeAttribute(stateValue)}"`;
+      }
+      domRepresentation.push(
+        `[${highlightIndex}]<${role}${attributes}>${name.replace(/\s+/g, " ")}</${role}>`,
+      );
+    }
+
+    const screenshot = await renderHighlightOverlay(
+      Array.from(elements.values()).map((element) => ({
+        index: element.highlightIndex!,
+        rect: element.rect,
+      })),
+      viewport.width,
+      viewport.height,
+      viewport.devicePixelRatio,
+    );
+
+    return {
+      elements,
+      domState: domRepresentation.join("\n"),
+      screenshot,
+    };
+  } finally {
+    await client.detach();
+  }
+};
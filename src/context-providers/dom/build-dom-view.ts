@@ -2,7 +2,7 @@ import { findInteractiveElements } from "./find-interactive-elements";
 import { renderHighlightsOffscreen } from "./highlight";
 import { getCSSPath } from "./get-css-path";
 import { CONTEXT_ATTRIBUTES } from "./const";
-import { DOMStateRaw } from "./types";
+import { BuildDomViewOptions, DOMStateRaw } from "./types";
 import { getXPath } from "./get-x-path";
 
 // Helper function to convert ImageBitmap to PNG Data URL
@@ -51,26 +51,31 @@ const getElementTextContent = (el: HTMLElement): string => {
 };
 // --- End new function definition ---
 
-export const buildDomView = (): DOMStateRaw => {
+export const buildDomView = ({
+  startIndex = 1,
+  highlight = true,
+}: BuildDomViewOptions = {}): DOMStateRaw => {
   const interactiveElements = findInteractiveElements();
 
-  // 1. Render highlights to an ImageBitmap
-  const screenBitmap = renderHighlightsOffscreen(
-    interactiveElements.map((element, index) => ({
-      element: element.element,
-      index: index + 1, // index range from 1 -> index
-      parentIframe: element.iframe ?? null,
-    })),
-    window.innerWidth,
-    window.innerHeight,
-  );
-
-  // 2. Convert the ImageBitmap to a PNG Data URL
-  const screenshotPngDataUrl = imageBitmapToPngDataUrl(screenBitmap);
+  // 1. Render highlights to an ImageBitmap and convert it to a PNG Data URL.
+  // Frames other than the main frame are highlighted by the caller, which knows where the frame sits on screen.
+  let screenshotPngDataUrl = "";
+  if (highlight) {
+    const screenBitmap = renderHighlightsOffscreen(
+      interactiveElements.map((element, index) => ({
+        element: element.element,
+        index: index + startIndex,
+        parentIframe: element.iframe ?? null,
+      })),
+      window.innerWidth,
+      window.innerHeight,
+    );
+    screenshotPngDataUrl = imageBitmapToPngDataUrl(screenBitmap);
+  }
 
   for (let idx = 0; idx < interactiveElements.length; idx++) {
     const element = interactiveElements[idx];
-    element.highlightIndex = idx + 1; // index range from 1 -> index
+    element.highlightIndex = idx + startIndex; // index range from startIndex -> index
     element.cssPath = getCSSPath(element.element);
     element.xpath = getXPath(element.element);
   }
@@ -4,32 +4,53 @@ import esbuild from "esbuild";
 
 fs.mkdirSync(path.join(__dirname, "./inject"), { recursive: true });
 
-esbuild.buildSync({
-  entryPoints: [path.join(__dirname, "build-dom-view.ts")],
-  bundle: true,
-  outfile: path.join(__dirname, "inject", "build-dom-view-script.js"),
-});
+const INJECTED_SCRIPTS = [
+  {
+    entryPoint: "build-dom-view.ts",
+    outputName: "build-dom-view",
+    constName: "buildDomViewJs",
+    // Called with BuildDomViewOptions, see getDom
+    wrap: (body: string) => `((options) => {
+${body}
+  return buildDomView(options);
+})`,
+  },
+  {
+    entryPoint: "get-element-locator.ts",
+    outputName: "get-element-locator",
+    constName: "getElementLocatorJs",
+    // Called on a remote element with Runtime.callFunctionOn, the element is bound to `this`
+    wrap: (body: string) => `(function () {
+${body}
+  return getElementLocator(this);
+})`,
+  },
+];
 
-const scriptContent = fs.readFileSync(
-  path.join(__dirname, "./inject/build-dom-view-script.js"),
-  "utf8",
-);
-const lines = scriptContent.trim().split("\n");
-const trimmedContent = `(() => {
-${lines.slice(2, -1).join("\n")}
-  return buildDomView();
-})();`;
-fs.writeFileSync(
-  path.join(__dirname, "./inject/build-dom-view-script.js"),
-  trimmedContent,
-);
-const escapedContent = trimmedContent
-  .replace(/\\/g, "\\\\")
-  .replace(/`/g, "\\`")
-  .replace(/\$\{/g, "\\${");
-const tsConstFile = `export const buildDomViewJs = \`${escapedContent}\`;`;
+for (const script of INJECTED_SCRIPTS) {
+  const scriptPath = path.join(
+    __dirname,
+    "inject",
+    `${script.outputName}-script.js`,
+  );
+  esbuild.buildSync({
+    entryPoints: [path.join(__dirname, script.entryPoint)],
+    bundle: true,
+    outfile: scriptPath,
+  });
 
-fs.writeFileSync(
-  path.join(__dirname, "./inject/build-dom-view.ts"),
-  tsConstFile,
-);
+  const scriptContent = fs.readFileSync(scriptPath, "utf8");
+  const lines = scriptContent.trim().split("\n");
+  const trimmedContent = script.wrap(lines.slice(2, -1).join("\n"));
+  fs.writeFileSync(scriptPath, trimmedContent);
+  const escapedContent = trimmedContent
+    .replace(/\\/g, "\\\\")
+    .replace(/`/g, "\\`")
+    .replace(/\$\{/g, "\\${");
+  const tsConstFile = `export const ${script.constName} = \`${escapedContent}\`;`;
+
+  fs.writeFileSync(
+    path.join(__dirname, "inject", `${script.outputName}.ts`),
+    tsConstFile,
+  );
+}
@@ -33,7 +33,8 @@ export const findInteractiveElements = (): InteractiveElement[] => {
         element,
         iframe: rootInfo.iframe,
         shadowHost: rootInfo.shadowHost,
-        rect: element.getBoundingClientRect(),
+        // Serialized to a plain object so the rect survives being returned from the page
+        rect: element.getBoundingClientRect().toJSON(),
         interactiveReason: reason,
         isUnderShadowRoot:
           element.getRootNode().nodeType === Node.DOCUMENT_FRAGMENT_NODE,
@@ -45,19 +46,8 @@ export const findInteractiveElements = (): InteractiveElement[] => {
 
   processRoot(document);
 
-  const iframes = document.querySelectorAll("iframe");
-  for (let i = 0; i < iframes.length; i++) {
-    const iframe = iframes[i] as HTMLIFrameElement;
-    try {
-      const iframeDoc =
-        iframe.contentDocument || iframe.contentWindow?.document;
-      if (iframeDoc) {
-        processRoot(iframeDoc, { iframe });
-      }
-    } catch (e) {
-      console.warn("error processing iframe", e);
-    }
-  }
+  // Iframes are not traversed here, getDom runs this script in every frame of the page
+  // so that cross-origin frames are covered as well
 
   return interactiveElements;
 };
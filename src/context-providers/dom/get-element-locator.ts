@@ -0,0 +1,17 @@
+import { getCSSPath } from "./get-css-path";
+import { getXPath } from "./get-x-path";
+
+export interface ElementLocator {
+  xpath: string;
+  cssPath: string;
+  isUnderShadowRoot: boolean;
+}
+
+export const getElementLocator = (element: HTMLElement): ElementLocator => {
+  return {
+    xpath: getXPath(element),
+    cssPath: getCSSPath(element),
+    isUnderShadowRoot:
+      element.getRootNode().nodeType === Node.DOCUMENT_FRAGMENT_NODE,
+  };
+};
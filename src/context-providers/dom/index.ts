@@ -1,18 +1,167 @@
-import { Page } from "playwright";
+import { Frame, Page } from "playwright";
+import sharp from "sharp";
 import { buildDomViewJs } from "./inject/build-dom-view";
-import { DOMState, DOMStateRaw, InteractiveElement } from "./types";
+import {
+  BuildDomViewOptions,
+  DOMState,
+  DOMStateRaw,
+  InteractiveElement,
+} from "./types";
+import { getXPath } from "./get-x-path";
+import { HighlightBox, renderHighlightOverlay } from "../highlight-overlay";
+
+interface FrameInfo {
+  frameSelectors: string[];
+  // Position of the frame's viewport in the main frame's viewport
+  offset: { x: number; y: number; width: number; height: number };
+}
+
+const DATA_URL_PREFIX = "data:image/png;base64,";
+
+const evaluateDomView = (frame: Frame, options: BuildDomViewOptions) =>
+  frame.evaluate(
+    `(${buildDomViewJs})(${JSON.stringify(options)})`,
+  ) as Promise<DOMStateRaw>;
+
+/**
+ * Resolves the iframe chain leading to a child frame. Returns null if the frame is not attached or not visible.
+ */
+const getFrameInfo = async (frame: Frame): Promise<FrameInfo | null> => {
+  const parentFrame = frame.parentFrame();
+  if (!parentFrame) {
+    return null;
+  }
+  const parentSelectors =
+    parentFrame.parentFrame() === null
+      ? []
+      : (await getFrameInfo(parentFrame))?.frameSelectors;
+  if (!parentSelectors) {
+    return null;
+  }
+
+  const frameElement = await frame.frameElement();
+  try {
+    // Bounding boxes are always relative to the main frame's viewport, even for nested frames
+    const box = await frameElement.boundingBox();
+    if (!box || box.width === 0 || box.height === 0) {
+      return null;
+    }
+    // getXPath only relies on DOM globals, so it can be passed to the page as is
+    const xpath = await frameElement.evaluate(
+      getXPath as (element: Element) => string,
+    );
+    return {
+      frameSelectors: [...parentSelectors, `xpath=${xpath}`],
+      offset: box,
+    };
+  } finally {
+    await frameElement.dispose();
+  }
+};
+
+const isInFrameViewport = (
+  rect: DOMRect,
+  offset: FrameInfo["offset"],
+): boolean =>
+  rect.width > 0 &&
+  rect.height > 0 &&
+  rect.left < offset.width &&
+  rect.right > 0 &&
+  rect.top < offset.height &&
+  rect.bottom > 0;
 
 export const getDom = async (page: Page): Promise<DOMState | null> => {
-  const result = (await page.evaluate(buildDomViewJs)) as DOMStateRaw;
+  const mainFrame = page.mainFrame();
+  const result = await evaluateDomView(mainFrame, {
+    startIndex: 1,
+    highlight: true,
+  });
   const elements = new Map<number, InteractiveElement>();
+  const domRepresentation = [result.domState];
   for (const element of result.elements) {
     if (element.highlightIndex !== undefined) {
-      elements.set(element.highlightIndex, element);
+      elements.set(element.highlightIndex, { ...element, frameSelectors: [] });
     }
   }
+
+  // Child frames (including cross-origin ones) are walked separately and appended after the main frame
+  const frameHighlights: HighlightBox[] = [];
+  for (const frame of page.frames()) {
+    if (
+      frame === mainFrame ||
+      frame.isDetached() ||
+      frame.url() === "about:blank"
+    ) {
+      continue;
+    }
+    try {
+      const frameInfo = await getFrameInfo(frame);
+      if (!frameInfo) {
+        continue;
+      }
+      const frameResult = await evaluateDomView(frame, {
+        startIndex: elements.size + 1,
+        highlight: false,
+      });
+      if (frameResult.elements.length === 0) {
+        continue;
+      }
+      for (const element of frameResult.elements) {
+        if (element.highlightIndex === undefined) {
+          continue;
+        }
+        elements.set(element.highlightIndex, {
+          ...element,
+          frameSelectors: frameInfo.frameSelectors,
+        });
+        if (isInFrameViewport(element.rect, frameInfo.offset)) {
+          frameHighlights.push({
+            index: element.highlightIndex,
+            rect: {
+              x: element.rect.x + frameInfo.offset.x,
+              y: element.rect.y + frameInfo.offset.y,
+              width: element.rect.width,
+              height: element.rect.height,
+            },
+          });
+        }
+      }
+      domRepresentation.push(
+        `=== Frame ${frame.url()} ===`,
+        frameResult.domState,
+      );
+    } catch (error) {
+      // Frames can navigate or detach while they are being processed
+      console.warn(`error processing frame ${frame.url()}`, error);
+    }
+  }
+
+  let screenshot = result.screenshot;
+  if (frameHighlights.length > 0) {
+    const viewport = await page.evaluate(() => ({
+      width: window.innerWidth,
+      height: window.innerHeight,
+      devicePixelRatio: window.devicePixelRatio || 1,
+    }));
+    const frameOverlay = await renderHighlightOverlay(
+      frameHighlights,
+      viewport.width,
+      viewport.height,
+      viewport.devicePixelRatio,
+    );
+    const mainOverlay = screenshot.startsWith(DATA_URL_PREFIX)
+      ? screenshot.slice(DATA_URL_PREFIX.length)
+      : screenshot;
+    const merged = await sharp(Buffer.from(mainOverlay, "base64"))
+      .composite([{ input: Buffer.from(frameOverlay, "base64") }])
+      .png()
+      .toBuffer();
+    screenshot = merged.toString("base64");
+  }
+
   return {
     elements,
-    domState: result.domState,
-    screenshot: result.screenshot,
+    domState: domRepresentation.join("\n"),
+    screenshot,
   };
 };
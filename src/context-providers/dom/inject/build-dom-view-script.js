@@ -1,4 +1,4 @@
-(() => {
+(options) => {
   // src/context-providers/dom/const.ts
   var INTERACTIVE_ELEMENTS = /* @__PURE__ */ new Set([
     "a",
@@ -154,7 +154,8 @@
           element,
           iframe: rootInfo.iframe,
           shadowHost: rootInfo.shadowHost,
-          rect: element.getBoundingClientRect(),
+          // Serialized to a plain object so the rect survives being returned from the page
+          rect: element.getBoundingClientRect().toJSON(),
           interactiveReason: reason,
           isUnderShadowRoot:
             element.getRootNode().nodeType === Node.DOCUMENT_FRAGMENT_NODE,
@@ -164,19 +165,6 @@
       }
     };
     processRoot(document);
-    const iframes = document.querySelectorAll("iframe");
-    for (let i = 0; i < iframes.length; i++) {
-      const iframe = iframes[i];
-      try {
-        const iframeDoc =
-          iframe.contentDocument || iframe.contentWindow?.document;
-        if (iframeDoc) {
-          processRoot(iframeDoc, { iframe });
-        }
-      } catch (e) {
-        console.warn("error processing iframe", e);
-      }
-    }
     return interactiveElements;
   };
 
@@ -513,22 +501,24 @@
       return el.textContent?.trim() || "";
     }
   };
-  var buildDomView = () => {
+  var buildDomView = ({ startIndex = 1, highlight = true } = {}) => {
     const interactiveElements = findInteractiveElements();
-    const screenBitmap = renderHighlightsOffscreen(
-      interactiveElements.map((element, index) => ({
-        element: element.element,
-        index: index + 1,
-        // index range from 1 -> index
-        parentIframe: element.iframe ?? null,
-      })),
-      window.innerWidth,
-      window.innerHeight,
-    );
-    const screenshotPngDataUrl = imageBitmapToPngDataUrl(screenBitmap);
+    let screenshotPngDataUrl = "";
+    if (highlight) {
+      const screenBitmap = renderHighlightsOffscreen(
+        interactiveElements.map((element, index) => ({
+          element: element.element,
+          index: index + startIndex,
+          parentIframe: element.iframe ?? null,
+        })),
+        window.innerWidth,
+        window.innerHeight,
+      );
+      screenshotPngDataUrl = imageBitmapToPngDataUrl(screenBitmap);
+    }
     for (let idx = 0; idx < interactiveElements.length; idx++) {
       const element = interactiveElements[idx];
-      element.highlightIndex = idx + 1;
+      element.highlightIndex = idx + startIndex;
       element.cssPath = getCSSPath(element.element);
       element.xpath = getXPath(element.element);
     }
@@ -575,5 +565,5 @@
       screenshot: screenshotPngDataUrl,
     };
   };
-  return buildDomView();
-})();
+  return buildDomView(options);
+};
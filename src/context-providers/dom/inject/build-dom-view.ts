@@ -1,4 +1,4 @@
-export const buildDomViewJs = `(() => {
+export const buildDomViewJs = `((options) => {
   // src/context-providers/dom/const.ts
   var INTERACTIVE_ELEMENTS = /* @__PURE__ */ new Set([
     "a",
@@ -76,9 +76,14 @@ export const buildDomViewJs = `(() => {
     if (hasClickHandler) {
       return { isInteractive: true, reason: "Has click handler" };
     }
-    const hasInjectedListener = element.hasAttribute("data-has-interactive-listener");
+    const hasInjectedListener = element.hasAttribute(
+      "data-has-interactive-listener"
+    );
     if (hasInjectedListener) {
-      return { isInteractive: true, reason: "Has interactive event listener (tracked)" };
+      return {
+        isInteractive: true,
+        reason: "Has interactive event listener (tracked)"
+      };
     }
     const hasAriaProps = INTERACTIVE_ARIA_PROPS.some(
       (prop) => element.hasAttribute(prop)
@@ -134,7 +139,8 @@ export const buildDomViewJs = `(() => {
           element,
           iframe: rootInfo.iframe,
           shadowHost: rootInfo.shadowHost,
-          rect: element.getBoundingClientRect(),
+          // Serialized to a plain object so the rect survives being returned from the page
+          rect: element.getBoundingClientRect().toJSON(),
           interactiveReason: reason,
           isUnderShadowRoot: element.getRootNode().nodeType === Node.DOCUMENT_FRAGMENT_NODE,
           cssPath: "",
@@ -143,30 +149,6 @@ export const buildDomViewJs = `(() => {
       }
     };
     processRoot(document);
-    // Process iframes, but exclude those with src="about:blank"
-    const iframes = document.querySelectorAll("iframe");
-    for (let i = 0; i < iframes.length; i++) {
-      const iframe = iframes[i];
-      
-      // Skip iframes with src="about:blank"
-      const src = iframe.getAttribute("src");
-      if (src === "about:blank") {
-        continue;
-      }
-      
-      try {
-        const iframeDoc = iframe.contentDocument || iframe.contentWindow?.document;
-        if (iframeDoc) {
-          // Also check the document URL in case src was set programmatically
-          if (iframeDoc.URL === "about:blank") {
-            continue;
-          }
-          processRoot(iframeDoc, { iframe });
-        }
-      } catch (e) {
-        console.warn("error processing iframe", e);
-      }
-    }
     return interactiveElements;
   };
 
@@ -461,22 +443,27 @@ export const buildDomViewJs = `(() => {
       return el.textContent?.trim() || "";
     }
   };
-  var buildDomView = () => {
+  var buildDomView = ({
+    startIndex = 1,
+    highlight = true
+  } = {}) => {
     const interactiveElements = findInteractiveElements();
-    const screenBitmap = renderHighlightsOffscreen(
-      interactiveElements.map((element, index) => ({
-        element: element.element,
-        index: index + 1,
-        // index range from 1 -> index
-        parentIframe: element.iframe ?? null
-      })),
-      window.innerWidth,
-      window.innerHeight
-    );
-    const screenshotPngDataUrl = imageBitmapToPngDataUrl(screenBitmap);
+    let screenshotPngDataUrl = "";
+    if (highlight) {
+      const screenBitmap = renderHighlightsOffscreen(
+        interactiveElements.map((element, index) => ({
+          element: element.element,
+          index: index + startIndex,
+          parentIframe: element.iframe ?? null
+        })),
+        window.innerWidth,
+        window.innerHeight
+      );
+      screenshotPngDataUrl = imageBitmapToPngDataUrl(screenBitmap);
+    }
     for (let idx = 0; idx < interactiveElements.length; idx++) {
       const element = interactiveElements[idx];
-      element.highlightIndex = idx + 1;
+      element.highlightIndex = idx + startIndex;
       element.cssPath = getCSSPath(element.element);
       element.xpath = getXPath(element.element);
     }
@@ -520,5 +507,5 @@ export const buildDomViewJs = `(() => {
       screenshot: screenshotPngDataUrl
     };
   };
-  return buildDomView();
-})();`;
+  return buildDomView(options);
+})`;
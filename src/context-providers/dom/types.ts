@@ -8,6 +8,20 @@ export interface InteractiveElement {
   highlightIndex?: number;
   cssPath: string;
   xpath: string;
+  // Selectors of the iframes leading to the element, outermost first. Empty for elements of the main frame
+  frameSelectors?: string[];
+  // Set by the accessibility provider
+  role?: string;
+  name?: string;
+  states?: Record<string, string>;
+  backendNodeId?: number;
+}
+
+export interface BuildDomViewOptions {
+  // Highlight index given to the first element found
+  startIndex?: number;
+  // Whether to render the highlight overlay
+  highlight?: boolean;
 }
 
 export interface DOMStateRaw {
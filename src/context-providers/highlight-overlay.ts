@@ -0,0 +1,79 @@
+import sharp from "sharp";
+
+export interface HighlightBox {
+  index: number;
+  rect: { x: number; y: number; width: number; height: number };
+}
+
+const HIGHLIGHT_COLORS = [
+  "#FF0000",
+  "#00FF00",
+  "#0000FF",
+  "#FFA500",
+  "#800080",
+  "#008080",
+  "#FF69B4",
+  "#4B0082",
+  "#FF4500",
+  "#2E8B57",
+  "#DC143C",
+  "#4682B4",
+];
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/**
+ * Renders numbered highlight boxes as a transparent PNG overlay, matching the one drawn in-page by the DOM provider.
+ * Used by providers that compute element bounds outside of the page.
+ *
+ * @param boxes Boxes to draw, in viewport (CSS pixel) coordinates
+ * @param width Viewport width in CSS pixels
+ * @param height Viewport height in CSS pixels
+ * @param devicePixelRatio Scale of the screenshot the overlay is composited onto
+ * @returns The overlay as a base64 encoded PNG
+ */
+export const renderHighlightOverlay = async (
+  boxes: HighlightBox[],
+  width: number,
+  height: number,
+  devicePixelRatio = 1,
+): Promise<string> => {
+  const shapes: string[] = [];
+  for (const { index, rect } of boxes) {
+    if (
+      rect.width <= 0 ||
+      rect.height <= 0 ||
+      rect.x >= width ||
+      rect.y >= height ||
+      rect.x + rect.width <= 0 ||
+      rect.y + rect.height <= 0
+    ) {
+      continue;
+    }
+    const color = HIGHLIGHT_COLORS[index % HIGHLIGHT_COLORS.length];
+    const label = index.toString();
+    const fontSize = Math.min(12, Math.max(9, rect.height * 0.3));
+    const labelHeight = fontSize + 4;
+    const labelWidth = Math.max(labelHeight, label.length * fontSize * 0.6 + 8);
+
+    // Default to the top-right corner of the element, move below it if the label would overlap
+    let labelTop = rect.y - labelHeight;
+    let labelLeft = rect.x + rect.width - labelWidth;
+    if (labelTop < 0) {
+      labelTop = rect.y + rect.height;
+    }
+    labelTop = Math.max(0, Math.min(labelTop, height - labelHeight));
+    labelLeft = Math.max(0, Math.min(labelLeft, width - labelWidth));
+
+    shapes.push(
+      `<rect x="${rect.x}" y="${rect.y}" width="${rect.width}" height="${rect.height}" fill="${color}" fill-opacity="0.1" stroke="${color}" stroke-width="1"/>`,
+      `<rect x="${labelLeft}" y="${labelTop}" width="${labelWidth}" height="${labelHeight}" fill="${color}"/>`,
+      `<text x="${labelLeft + labelWidth / 2}" y="${labelTop + labelHeight / 2}" fill="white" font-family="sans-serif" font-weight="bold" font-size="${fontSize}" text-anchor="middle" dominant-baseline="central">${escapeXml(label)}</text>`,
+    );
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.round(width * devicePixelRatio)}" height="${Math.round(height * devicePixelRatio)}" viewBox="0 0 ${width} ${height}">${shapes.join("")}</svg>`;
+  const overlay = await sharp(Buffer.from(svg)).png().toBuffer();
+  return overlay.toString("base64");
+};
@@ -0,0 +1,19 @@
+import { Page } from "playwright";
+import { getDom } from "./dom";
+import { getAccessibilityDom } from "./a11y";
+import { DOMState } from "./dom/types";
+
+export type DomProvider = "dom" | "accessibility";
+
+/**
+ * Gets the DOM state of the page with the selected context provider
+ */
+export const getDomState = async (
+  page: Page,
+  provider: DomProvider = "dom",
+): Promise<DOMState | null> => {
+  if (provider === "accessibility") {
+    return getAccessibilityDom(page);
+  }
+  return getDom(page);
+};
@@ -1,17 +1,21 @@
 import { HyperAgent } from "./agent";
 import { TaskStatus } from "./types/agent/types";
 import { HyperbrowserProvider, LocalBrowserProvider, CDPBrowserProvider, CDPBrowserConfig } from "./browser-providers";
+import { FileSystemTaskStore } from "./task-stores";
+import { AgentPool } from "./agent/pool";
 
-export { TaskStatus, HyperAgent, HyperbrowserProvider, LocalBrowserProvider, CDPBrowserProvider, CDPBrowserConfig };
+export { TaskStatus, HyperAgent, AgentPool, HyperbrowserProvider, LocalBrowserProvider, CDPBrowserProvider, CDPBrowserConfig, FileSystemTaskStore };
 export default HyperAgent;
 
 // For CommonJS compatibility
 if (typeof module !== "undefined" && module.exports) {
   module.exports = HyperAgent;
   module.exports.HyperAgent = HyperAgent;
+  module.exports.AgentPool = AgentPool;
   module.exports.TaskStatus = TaskStatus;
   module.exports.HyperbrowserProvider = HyperbrowserProvider;
   module.exports.LocalBrowserProvider = LocalBrowserProvider;
   module.exports.CDPBrowserProvider = CDPBrowserProvider;
+  module.exports.FileSystemTaskStore = FileSystemTaskStore;
   module.exports.default = HyperAgent;
 }
@@ -0,0 +1,71 @@
+import http from "node:http";
+import { HyperagentError } from "@/agent/error";
+
+const LOOPBACK_HOSTS = new Set(["localhost", "127.0.0.1", "[::1]"]);
+
+const getHostname = (host: string): string =>
+  host.startsWith("[")
+    ? host.slice(0, host.indexOf("]") + 1)
+    : host.split(":")[0];
+
+/**
+ * Reject requests a browser sends on behalf of another website.
+ * Cross-origin requests carry the `Origin` of the page that sent them, which has to be the server itself.
+ * The `Host` has to be a loopback name, the address the request came in on, or one of the allowed hosts, so that a
+ * domain rebound to the server's address cannot reach it either.
+ * @param req The incoming request
+ * @param allowedHosts Extra host names the server is reached through
+ */
+export const checkRequestOrigin = (
+  req: http.IncomingMessage,
+  allowedHosts: string[] = [],
+): void => {
+  const host = req.headers.host;
+  if (!host) {
+    throw new HyperagentError("Host header is required", 400);
+  }
+  const hostname = getHostname(host.toLowerCase());
+  const localAddress = (req.socket.localAddress ?? "").replace(/^::ffff:/, "");
+  if (
+    !LOOPBACK_HOSTS.has(hostname) &&
+    hostname !== localAddress &&
+    hostname !== `[${localAddress}]` &&
+    !allowedHosts.some((allowed) => allowed.toLowerCase() === hostname)
+  ) {
+    throw new HyperagentError(`Host ${host} is not allowed`, 403);
+  }
+
+  const origin = req.headers.origin;
+  if (origin === undefined) {
+    return;
+  }
+  let originHost: string;
+  try {
+    originHost = new URL(origin).host;
+  } catch {
+    throw new HyperagentError(`Origin ${origin} is not allowed`, 403);
+  }
+  if (originHost.toLowerCase() !== host.toLowerCase()) {
+    throw new HyperagentError(`Origin ${origin} is not allowed`, 403);
+  }
+};
+
+/**
+ * Reject requests that don't send the bearer token of the server, when it has one
+ */
+export const checkToken = (req: http.IncomingMessage, token?: string): void => {
+  if (token && req.headers.authorization !== `Bearer ${token}`) {
+    throw new HyperagentError("Unauthorized", 401);
+  }
+};
+
+/**
+ * Reject bodies that are not sent as JSON. Browsers only send JSON cross-origin after a CORS preflight, which the
+ * server never answers, so this keeps other websites from posting to it.
+ */
+export const checkJsonContentType = (req: http.IncomingMessage): void => {
+  const contentType = req.headers["content-type"]?.split(";")[0].trim();
+  if (contentType?.toLowerCase() !== "application/json") {
+    throw new HyperagentError("Content-Type must be application/json", 415);
+  }
+};
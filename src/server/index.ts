@@ -0,0 +1,406 @@
+import http from "node:http";
+import { BrowserContext } from "playwright";
+import { HyperAgent } from "@/agent";
+import { HyperagentError } from "@/agent/error";
+import {
+  AgentStep,
+  endTaskStatuses,
+  PlanItem,
+  RecoveryStrategy,
+  StagnationConfig,
+  Task,
+  TaskOutput,
+  VerificationConfig,
+} from "@/types";
+import { HyperAgentEvents } from "@/types/agent/events";
+import { BrowserProviders } from "@/types/config";
+import { jsonSchemaToZodObject, JsonSchema } from "@/utils/json-schema-to-zod";
+import { checkJsonContentType, checkRequestOrigin, checkToken } from "./guard";
+
+export interface TaskServerOptions {
+  /**
+   * When set, requests must send an `Authorization: Bearer <token>` header
+   */
+  token?: string;
+  /**
+   * Host names the server is reached through, besides loopback names and the address it listens on
+   */
+  allowedHosts?: string[];
+}
+
+export interface CreateTaskRequest {
+  task: string;
+  maxSteps?: number;
+  /**
+   * Stop the task once it has run for this long, see `TaskParams.timeoutMs`
+   */
+  timeoutMs?: number;
+  /**
+   * Deadline of every step, see `TaskParams.stepTimeoutMs`
+   */
+  stepTimeoutMs?: number;
+  /**
+   * JSON schema of the structured output of the task, must describe an object
+   */
+  outputSchema?: JsonSchema;
+  /**
+   * URL opened before the task starts
+   */
+  startUrl?: string;
+  /**
+   * Break the task into a plan before it starts, see `TaskParams.planning`
+   */
+  planning?: boolean;
+  /**
+   * Verify the completion of the task, see `TaskParams.verification`
+   */
+  verification?: VerificationConfig;
+  /**
+   * Detect and recover from the task getting stuck, see `TaskParams.stagnation`
+   */
+  stagnation?: StagnationConfig;
+}
+
+interface TaskRecord {
+  task: Task;
+  description: string;
+  steps: AgentStep[];
+  plan?: PlanItem[];
+  output?: TaskOutput;
+  error?: string;
+  createdAt: string;
+}
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const RECOVERY_STRATEGIES = new Set<RecoveryStrategy>([
+  "warn",
+  "think",
+  "reload",
+  "goBack",
+  "escalate",
+]);
+
+// Events streamed to SSE clients. LLM requests are left out, they carry the full prompt and screenshots
+const STREAMED_EVENTS: Array<keyof HyperAgentEvents> = [
+  "statusChanged",
+  "stepStarted",
+  "stepFinished",
+  "actionStarted",
+  "actionFinished",
+  "navigation",
+  "planUpdated",
+  "completed",
+  "error",
+];
+
+const sendJson = (
+  res: http.ServerResponse,
+  statusCode: number,
+  body: unknown,
+) => {
+  res.writeHead(statusCode, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const readJsonBody = async (req: http.IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HyperagentError("Request body too large", 413);
+    }
+    chunks.push(chunk);
+  }
+  const body = Buffer.concat(chunks).toString();
+  try {
+    return body ? JSON.parse(body) : {};
+  } catch {
+    throw new HyperagentError("Request body is not valid JSON", 400);
+  }
+};
+
+const parseCreateTaskRequest = (body: unknown): CreateTaskRequest => {
+  const request = body as Partial<CreateTaskRequest>;
+  if (typeof request?.task !== "string" || !request.task.trim()) {
+    throw new HyperagentError("task is required", 400);
+  }
+  if (
+    request.maxSteps !== undefined &&
+    (!Number.isInteger(request.maxSteps) || request.maxSteps <= 0)
+  ) {
+    throw new HyperagentError("maxSteps must be a positive integer", 400);
+  }
+  for (const field of ["timeoutMs", "stepTimeoutMs"] as const) {
+    const value = request[field];
+    if (value !== undefined && (typeof value !== "number" || value <= 0)) {
+      throw new HyperagentError(`${field} must be a positive number`, 400);
+    }
+  }
+  if (request.startUrl !== undefined && typeof request.startUrl !== "string") {
+    throw new HyperagentError("startUrl must be a string", 400);
+  }
+  if (request.planning !== undefined && typeof request.planning !== "boolean") {
+    throw new HyperagentError("planning must be a boolean", 400);
+  }
+  if (
+    request.verification !== undefined &&
+    (typeof request.verification !== "object" ||
+      request.verification === null ||
+      (request.verification.maxRetries !== undefined &&
+        (!Number.isInteger(request.verification.maxRetries) ||
+          request.verification.maxRetries < 0)))
+  ) {
+    throw new HyperagentError(
+      "verification must be an object with a non-negative integer maxRetries",
+      400,
+    );
+  }
+  if (
+    request.stagnation !== undefined &&
+    (typeof request.stagnation !== "object" ||
+      request.stagnation === null ||
+      (request.stagnation.recoveries !== undefined &&
+        (!Array.isArray(request.stagnation.recoveries) ||
+          request.stagnation.recoveries.some(
+            (recovery) => !RECOVERY_STRATEGIES.has(recovery),
+          ))))
+  ) {
+    throw new HyperagentError(
+      `stagnation must be an object, with recoveries among ${[...RECOVERY_STRATEGIES].join(", ")}`,
+      400,
+    );
+  }
+  return request as CreateTaskRequest;
+};
+
+const serializeTask = (id: string, record: TaskRecord) => ({
+  id,
+  task: record.description,
+  status: record.task.getStatus(),
+  steps: record.steps,
+  plan: record.plan,
+  output: record.output?.output,
+  verification: record.output?.verification,
+  usage: record.output?.usage,
+  error: record.error,
+  createdAt: record.createdAt,
+});
+
+/**
+ * Create an HTTP server exposing the tasks of an agent as a JSON API:
+ * - `POST /tasks` creates a task, `GET /tasks` lists them
+ * - `GET /tasks/:id` returns the status, steps and output of a task
+ * - `POST /tasks/:id/pause`, `/resume` and `/cancel` control a running task
+ * - `GET /tasks/:id/events` streams the events of a task as server-sent events
+ * Every task runs in its own browser context, so tasks can run at the same time.
+ * @param agent The agent running the tasks
+ * @param options Options of the server
+ * @returns The server, not listening yet
+ */
+export const createTaskServer = <T extends BrowserProviders>(
+  agent: HyperAgent<T>,
+  options: TaskServerOptions = {},
+): http.Server => {
+  const tasks = new Map<string, TaskRecord>();
+
+  // Task errors are recorded on the task, they must not crash the server
+  agent.on("error", (error) => {
+    console.error("Task failed:", error);
+  });
+
+  const createTask = async (request: CreateTaskRequest) => {
+    const outputSchema = request.outputSchema
+      ? (() => {
+          try {
+            return jsonSchemaToZodObject(request.outputSchema);
+          } catch (error) {
+            throw new HyperagentError(`Invalid outputSchema: ${error}`, 400);
+          }
+        })()
+      : undefined;
+
+    const context: BrowserContext = await agent.newContext();
+    try {
+      const page = await context.newPage();
+      if (request.startUrl) {
+        await page.goto(request.startUrl);
+      }
+      const steps: AgentStep[] = [];
+      const task = await agent.executeTaskAsync(
+        request.task,
+        {
+          maxSteps: request.maxSteps,
+          timeoutMs: request.timeoutMs,
+          stepTimeoutMs: request.stepTimeoutMs,
+          planning: request.planning,
+          verification: request.verification,
+          stagnation: request.stagnation,
+          outputSchema,
+          // Tasks get a copy of the agent's variables, so that concurrent tasks don't see each other's updates
+          variables: structuredClone(agent.getVariables()),
+          onStep: (step) => {
+            steps.push(step);
+          },
+          onComplete: async (output) => {
+            const record = tasks.get(task.id);
+            if (record) {
+              record.output = output;
+            }
+            await context.close().catch(() => {});
+          },
+        },
+        page,
+      );
+      const record: TaskRecord = {
+        task,
+        description: request.task,
+        steps,
+        createdAt: new Date().toISOString(),
+      };
+      task.emitter.on("planUpdated", ({ plan }) => {
+        record.plan = plan;
+      });
+      task.emitter.on("error", (error) => {
+        record.error = error.message;
+        context.close().catch(() => {});
+      });
+      tasks.set(task.id, record);
+      return task.id;
+    } catch (error) {
+      await context.close().catch(() => {});
+      throw error;
+    }
+  };
+
+  const streamEvents = (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    record: TaskRecord,
+  ) => {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    send("status", { status: record.task.getStatus() });
+    if (endTaskStatuses.has(record.task.getStatus())) {
+      res.end();
+      return;
+    }
+
+    const listeners = STREAMED_EVENTS.map((event) => {
+      const listener = (payload: unknown) => {
+        send(
+          event,
+          payload instanceof Error ? { message: payload.message } : payload,
+        );
+        if (event === "completed" || event === "error") {
+          res.end();
+        }
+      };
+      record.task.emitter.on(event, listener as HyperAgentEvents[typeof event]);
+      return { event, listener };
+    });
+    req.on("close", () => {
+      for (const { event, listener } of listeners) {
+        record.task.emitter.off(
+          event,
+          listener as HyperAgentEvents[typeof event],
+        );
+      }
+    });
+  };
+
+  const handleRequest = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ) => {
+    checkRequestOrigin(req, options.allowedHosts);
+    checkToken(req, options.token);
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const [resource, taskId, subresource, ...rest] = url.pathname
+      .split("/")
+      .filter(Boolean);
+    if (resource !== "tasks" || rest.length > 0) {
+      throw new HyperagentError(`Route ${url.pathname} not found`, 404);
+    }
+
+    if (!taskId) {
+      if (req.method === "POST") {
+        checkJsonContentType(req);
+        const request = parseCreateTaskRequest(await readJsonBody(req));
+        const id = await createTask(request);
+        sendJson(res, 201, serializeTask(id, tasks.get(id)!));
+        return;
+      }
+      if (req.method === "GET") {
+        sendJson(res, 200, {
+          tasks: [...tasks.entries()].map(([id, record]) => ({
+            id,
+            task: record.description,
+            status: record.task.getStatus(),
+            createdAt: record.createdAt,
+          })),
+        });
+        return;
+      }
+      throw new HyperagentError(`Method ${req.method} not allowed`, 405);
+    }
+
+    const record = tasks.get(taskId);
+    if (!record) {
+      throw new HyperagentError(`Task ${taskId} not found`, 404);
+    }
+    if (!subresource && req.method === "GET") {
+      sendJson(res, 200, serializeTask(taskId, record));
+      return;
+    }
+    if (subresource === "events" && req.method === "GET") {
+      streamEvents(req, res, record);
+      return;
+    }
+    if (req.method === "POST") {
+      const control = {
+        pause: record.task.pause,
+        resume: record.task.resume,
+        cancel: record.task.cancel,
+      }[subresource ?? ""];
+      if (control) {
+        sendJson(res, 200, { id: taskId, status: control() });
+        return;
+      }
+    }
+    throw new HyperagentError(
+      `Route ${req.method} ${url.pathname} not found`,
+      404,
+    );
+  };
+
+  return http.createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      const statusCode =
+        error instanceof HyperagentError && error.statusCode
+          ? error.statusCode
+          : 500;
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      sendJson(res, statusCode, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  });
+};
+
+export {
+  createMcpServer,
+  startMcpStdioServer,
+  createMcpSseServer,
+  McpSseServerOptions,
+} from "./mcp";
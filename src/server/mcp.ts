@@ -0,0 +1,275 @@
+import http from "node:http";
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { HyperAgent } from "@/agent";
+import { DEFAULT_ACTIONS } from "@/agent/actions";
+import { compositeScreenshot } from "@/agent/tools/agent";
+import { DOMState } from "@/context-providers/dom/types";
+import { BrowserProviders } from "@/types/config";
+import { TaskStatus } from "@/types";
+import { HyperagentError } from "@/agent/error";
+import { jsonSchemaToZodObject, JsonSchema } from "@/utils/json-schema-to-zod";
+import { checkRequestOrigin, checkToken } from "./guard";
+
+// Only meaningful inside the agent loop
+const EXCLUDED_ACTIONS = new Set(["thinkAction"]);
+
+const DATA_URL_PREFIX = "data:image/png;base64,";
+
+const textResult = (text: string, isError = false): CallToolResult => ({
+  content: [{ type: "text", text }],
+  isError,
+});
+
+const errorResult = (error: unknown): CallToolResult =>
+  textResult(error instanceof Error ? error.message : String(error), true);
+
+const OutputSchemaParam = z
+  .record(z.any())
+  .optional()
+  .describe(
+    "JSON schema of an object describing the expected output. When set, the output is a JSON string matching it.",
+  );
+
+const parseOutputSchema = (schema?: Record<string, unknown>) =>
+  schema ? jsonSchemaToZodObject(schema as JsonSchema) : undefined;
+
+/**
+ * Create an MCP server exposing an agent as tools: running whole tasks, extracting data, taking screenshots,
+ * reading the page and running the default actions one by one.
+ * Every tool works on the agent's current page, so the browser session persists across calls.
+ * @param agent The agent driving the browser
+ * @returns The MCP server, to be connected to a transport
+ */
+export const createMcpServer = <T extends BrowserProviders>(
+  agent: HyperAgent<T>,
+): McpServer => {
+  const server = new McpServer({ name: "hyperagent", version: "1.0.0" });
+  // Element indexes of the actions refer to the last page state returned to the client,
+  // it is dropped once an action may have changed the page
+  let domState: DOMState | null = null;
+
+  server.tool(
+    "executeTask",
+    "Run a browser task end to end with HyperAgent, in the current browser session",
+    {
+      task: z.string().describe("Description of the task"),
+      maxSteps: z.number().int().positive().optional(),
+      outputSchema: OutputSchemaParam,
+    },
+    async ({ task, maxSteps, outputSchema }) => {
+      try {
+        const page = await agent.getCurrentPage();
+        const output = await agent.executeTask(
+          task,
+          { maxSteps, outputSchema: parseOutputSchema(outputSchema) },
+          page,
+        );
+        domState = null;
+        return textResult(
+          `Task ${output.status}: ${output.output ?? "No output"}`,
+          output.status !== TaskStatus.COMPLETED,
+        );
+      } catch (error) {
+        return errorResult(error);
+      }
+    },
+  );
+
+  server.tool(
+    "extractData",
+    "Extract data from the current page, as text or as JSON matching a schema",
+    {
+      instruction: z
+        .string()
+        .optional()
+        .describe("What to extract, optional when an output schema is given"),
+      outputSchema: OutputSchemaParam,
+    },
+    async ({ instruction, outputSchema }) => {
+      try {
+        const page = await agent.getCurrentPage();
+        const result = await page.extract(
+          instruction,
+          parseOutputSchema(outputSchema),
+        );
+        return textResult(
+          typeof result === "string" ? result : JSON.stringify(result),
+        );
+      } catch (error) {
+        return errorResult(error);
+      }
+    },
+  );
+
+  server.tool(
+    "screenshot",
+    "Take a screenshot of the current page",
+    async () => {
+      try {
+        const page = await agent.getCurrentPage();
+        const screenshot = await page.screenshot();
+        return {
+          content: [
+            {
+              type: "image",
+              data: screenshot.toString("base64"),
+              mimeType: "image/png",
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    },
+  );
+
+  server.tool(
+    "getPageState",
+    "List the interactive elements of the current page with their indexes, along with a screenshot highlighting them. Call this before actions that take an element index.",
+    async () => {
+      try {
+        const page = await agent.getCurrentPage();
+        domState = await agent.getPageState(page);
+        if (!domState) {
+          return textResult("Could not read the page, try again", true);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `URL: ${page.url()}\n${domState.domState}`,
+            },
+            {
+              type: "image",
+              data: await compositeScreenshot(
+                page,
+                domState.screenshot.startsWith(DATA_URL_PREFIX)
+                  ? domState.screenshot.slice(DATA_URL_PREFIX.length)
+                  : domState.screenshot,
+              ),
+              mimeType: "image/png",
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    },
+  );
+
+  for (const action of DEFAULT_ACTIONS) {
+    if (EXCLUDED_ACTIONS.has(action.type)) {
+      continue;
+    }
+    server.tool(
+      action.type,
+      action.actionParams.description ?? action.type,
+      action.actionParams.shape,
+      async (params: Record<string, unknown>) => {
+        try {
+          const page = await agent.getCurrentPage();
+          const currentDomState = domState ?? (await agent.getPageState(page));
+          if (!currentDomState) {
+            return textResult("Could not read the page, try again", true);
+          }
+          domState = null;
+          const output = await agent.executeAction(
+            { type: action.type, params },
+            currentDomState,
+            page,
+          );
+          return textResult(output.message, !output.success);
+        } catch (error) {
+          return errorResult(error);
+        }
+      },
+    );
+  }
+
+  return server;
+};
+
+/**
+ * Serve an agent over MCP on stdin / stdout.
+ * stdout carries the MCP messages, so `console.log` is sent to stderr from then on.
+ * @param agent The agent driving the browser
+ */
+export const startMcpStdioServer = async <T extends BrowserProviders>(
+  agent: HyperAgent<T>,
+): Promise<McpServer> => {
+  console.log = console.error;
+  const server = createMcpServer(agent);
+  await server.connect(new StdioServerTransport());
+  return server;
+};
+
+export interface McpSseServerOptions {
+  /**
+   * When set, requests must send an `Authorization: Bearer <token>` header
+   */
+  token?: string;
+  /**
+   * Host names the server is reached through, besides loopback names and the address it listens on
+   */
+  allowedHosts?: string[];
+}
+
+/**
+ * Serve an agent over MCP with server-sent events: clients connect to `GET /sse` and post their messages to `/messages`.
+ * Every client gets its own MCP session, all sessions drive the same browser.
+ * @param agent The agent driving the browser
+ * @param options Options of the server
+ * @returns The HTTP server, not listening yet
+ */
+export const createMcpSseServer = <T extends BrowserProviders>(
+  agent: HyperAgent<T>,
+  options: McpSseServerOptions = {},
+): http.Server => {
+  const transports = new Map<string, SSEServerTransport>();
+
+  return http.createServer((req, res) => {
+    try {
+      checkRequestOrigin(req, options.allowedHosts);
+      checkToken(req, options.token);
+    } catch (error) {
+      res
+        .writeHead(
+          error instanceof HyperagentError && error.statusCode
+            ? error.statusCode
+            : 500,
+        )
+        .end(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (req.method === "GET" && url.pathname === "/sse") {
+      const transport = new SSEServerTransport("/messages", res);
+      transports.set(transport.sessionId, transport);
+      res.on("close", () => {
+        transports.delete(transport.sessionId);
+      });
+      createMcpServer(agent)
+        .connect(transport)
+        .catch((error) => {
+          console.error("Failed to start MCP session:", error);
+        });
+      return;
+    }
+    if (req.method === "POST" && url.pathname === "/messages") {
+      const transport = transports.get(url.searchParams.get("sessionId") ?? "");
+      if (!transport) {
+        res.writeHead(404).end("Session not found");
+        return;
+      }
+      transport.handlePostMessage(req, res).catch((error) => {
+        console.error("Failed to handle MCP message:", error);
+      });
+      return;
+    }
+    res.writeHead(404).end("Not found");
+  });
+};
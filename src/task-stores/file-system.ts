@@ -0,0 +1,65 @@
+import fs from "fs";
+import path from "path";
+import TaskStore, { TaskSnapshot } from "@/types/task-store/types";
+
+export interface FileSystemTaskStoreConfig {
+  /**
+   * Directory the task snapshots are written to. Defaults to `.hyperagent/tasks`
+   */
+  dir?: string;
+}
+
+export class FileSystemTaskStore extends TaskStore {
+  dir: string;
+
+  constructor(config?: FileSystemTaskStoreConfig) {
+    super();
+    this.dir = config?.dir ?? path.join(".hyperagent", "tasks");
+  }
+
+  async save(snapshot: TaskSnapshot): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const file = this.getSnapshotPath(snapshot.id);
+    // Write to a temporary file first so a crash mid-write never leaves a truncated snapshot behind
+    const tmpFile = `${file}.tmp`;
+    await fs.promises.writeFile(tmpFile, JSON.stringify(snapshot, null, 2));
+    await fs.promises.rename(tmpFile, file);
+  }
+
+  async load(taskId: string): Promise<TaskSnapshot | null> {
+    try {
+      const content = await fs.promises.readFile(
+        this.getSnapshotPath(taskId),
+        "utf-8",
+      );
+      return JSON.parse(content) as TaskSnapshot;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(taskId: string): Promise<void> {
+    await fs.promises.rm(this.getSnapshotPath(taskId), { force: true });
+  }
+
+  async list(): Promise<string[]> {
+    try {
+      const files = await fs.promises.readdir(this.dir);
+      return files
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => path.basename(file, ".json"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private getSnapshotPath(taskId: string): string {
+    return path.join(this.dir, `${taskId}.json`);
+  }
+}
@@ -0,0 +1,3 @@
+import { FileSystemTaskStore, FileSystemTaskStoreConfig } from "./file-system";
+
+export { FileSystemTaskStore, FileSystemTaskStoreConfig };
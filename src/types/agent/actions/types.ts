@@ -3,16 +3,37 @@ import { DOMState } from "../../../context-providers/dom/types";
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { z } from "zod";
 import { MCPClient } from "../../../agent/mcp/client";
-import { HyperVariable } from "../types";
+import { HyperVariable, PlanItem } from "../types";
+import { ModelCapabilities } from "../models";
+import { UsageTracker } from "../../../agent/llms/usage";
+import { ModelRouter } from "../../../agent/llms/router";
+import { TabManager } from "../../../agent/tools/tabs";
+import { NavigationPolicy } from "../../../agent/tools/navigation-policy";
 
 export interface ActionContext {
   page: Page;
   domState: DOMState;
   llm: BaseChatModel;
+  modelCapabilities?: ModelCapabilities;
+  /**
+   * Models of the agent by role, actions calling an LLM should use their role's model rather than `llm`
+   */
+  models?: ModelRouter;
   tokenLimit: number;
   variables: Record<string, HyperVariable>;
   debugDir?: string;
   mcpClient?: MCPClient;
+  usage?: UsageTracker;
+  tabs?: TabManager;
+  navigationPolicy?: NavigationPolicy;
+  /**
+   * Aborted when the step times out or the task is cancelled, actions calling an LLM should pass it along
+   */
+  signal?: AbortSignal;
+  /**
+   * Timestamp in milliseconds at which the step times out, Playwright calls should not wait past it, see `getActionTimeout`
+   */
+  timeoutAt?: number;
 }
 
 export interface ActionOutput {
@@ -20,6 +41,14 @@ export interface ActionOutput {
   message: string;
   extract?: object;
   variableUpdates?: HyperVariable[];
+  /**
+   * Revised plan of the task, replacing the current one
+   */
+  planUpdate?: PlanItem[];
+  /**
+   * The action did not run, e.g. the page changed or the step timed out before it. Skipped actions do not count as failures
+   */
+  skipped?: boolean;
 }
 
 export type ActionSchemaType = z.ZodObject<
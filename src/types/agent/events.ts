@@ -0,0 +1,108 @@
+import { BaseMessageLike } from "@langchain/core/messages";
+import { ActionOutput, ActionType } from "./actions/types";
+import {
+  AgentOutput,
+  AgentStep,
+  HyperVariable,
+  PlanItem,
+  TaskOutput,
+  TaskStatus,
+} from "./types";
+import { ApprovalDecision, ApprovalRequest } from "../config";
+
+export interface StatusChangedEvent {
+  taskId: string;
+  status: TaskStatus;
+  previousStatus: TaskStatus;
+}
+
+export interface StepStartedEvent {
+  taskId: string;
+  step: number;
+  url: string;
+}
+
+export interface StepFinishedEvent {
+  taskId: string;
+  step: AgentStep;
+}
+
+export interface LLMRequestEvent {
+  taskId: string;
+  step: number;
+  messages: BaseMessageLike[];
+}
+
+export interface LLMResponseEvent {
+  taskId: string;
+  step: number;
+  agentOutput: AgentOutput;
+}
+
+export interface ActionStartedEvent {
+  taskId: string;
+  step: number;
+  substep: number;
+  action: ActionType;
+}
+
+export interface ActionFinishedEvent {
+  taskId: string;
+  step: number;
+  substep: number;
+  action: ActionType;
+  output: ActionOutput;
+}
+
+export interface VariableUpdatedEvent {
+  taskId: string;
+  variable: HyperVariable;
+  previousVariable?: HyperVariable;
+}
+
+export interface NavigationEvent {
+  taskId: string;
+  url: string;
+  previousUrl: string;
+}
+
+export interface PolicyViolationEvent {
+  taskId: string;
+  policy: "navigation";
+  url: string;
+  reason: string;
+}
+
+export interface ApprovalResolvedEvent {
+  taskId: string;
+  request: ApprovalRequest;
+  decision: ApprovalDecision;
+}
+
+export interface PlanUpdatedEvent {
+  taskId: string;
+  plan: PlanItem[];
+}
+
+export interface CompletedEvent {
+  taskId: string;
+  output: TaskOutput;
+}
+
+export type HyperAgentEvents = {
+  error: (error: Error) => void;
+  statusChanged: (event: StatusChangedEvent) => void;
+  stepStarted: (event: StepStartedEvent) => void;
+  stepFinished: (event: StepFinishedEvent) => void;
+  llmRequest: (event: LLMRequestEvent) => void;
+  llmResponse: (event: LLMResponseEvent) => void;
+  actionStarted: (event: ActionStartedEvent) => void;
+  actionFinished: (event: ActionFinishedEvent) => void;
+  variableUpdated: (event: VariableUpdatedEvent) => void;
+  navigation: (event: NavigationEvent) => void;
+  policyViolation: (event: PolicyViolationEvent) => void;
+  approvalRequested: (request: ApprovalRequest) => void;
+  approvalResolved: (event: ApprovalResolvedEvent) => void;
+  planUpdated: (event: PlanUpdatedEvent) => void;
+  completed: (event: CompletedEvent) => void;
+};
@@ -0,0 +1,57 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+
+export interface ModelCapabilities {
+  /**
+   * Whether the model supports tool calling, used for structured outputs when available
+   */
+  tools: boolean;
+  /**
+   * Whether the model can be constrained to answer with JSON
+   */
+  jsonMode: boolean;
+  /**
+   * Whether the model accepts images. Models without vision get text only prompts, without screenshots
+   */
+  vision: boolean;
+  /**
+   * Size of the context window, in tokens
+   */
+  maxContextTokens?: number;
+}
+
+/**
+ * Purpose of an LLM call:
+ * - agent: choosing the actions of every step of a task
+ * - planner: breaking a task into a plan before its first step, see `TaskParams.planning`
+ * - findElement: finding an element from its description (`page.ai` locators, self healing replays)
+ * - extract: extracting data from a page
+ * - validator: checking that a task is really done before completing it
+ * - summarizer: folding old steps into the memory of long tasks
+ */
+export type ModelRole =
+  | "agent"
+  | "planner"
+  | "findElement"
+  | "extract"
+  | "validator"
+  | "summarizer";
+
+export interface ModelEscalationConfig {
+  /**
+   * Stronger model used to retry steps after failures
+   */
+  llm: BaseChatModel;
+  /**
+   * Number of consecutive failed action outputs after which steps run on the stronger model. Defaults to 2.
+   * Steps go back to the agent model once a step succeeds.
+   */
+  afterFailures?: number;
+}
+
+export interface ModelRoutingConfig {
+  /**
+   * Model of every role, roles without a model use the `llm` of the agent
+   */
+  models?: Partial<Record<ModelRole, BaseChatModel>>;
+  escalation?: ModelEscalationConfig;
+}
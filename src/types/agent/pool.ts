@@ -0,0 +1,52 @@
+import { HyperVariable, TaskOutput, TaskParams, TaskStatus } from "./types";
+import { TokenUsage } from "./usage";
+
+export interface AgentPoolOptions {
+  /**
+   * Number of tasks running at the same time. Defaults to 3
+   */
+  concurrency?: number;
+  /**
+   * Stop tasks running for longer than this, can be overridden per task. Tasks stopped end with the timed out status
+   */
+  taskTimeoutMs?: number;
+}
+
+export interface PoolTask {
+  task: string;
+  /**
+   * URL opened before the task starts
+   */
+  startUrl?: string;
+  /**
+   * Variables of this task, added on top of a copy of the agent's variables
+   */
+  variables?: HyperVariable[];
+  params?: Omit<TaskParams, "variables">;
+  timeoutMs?: number;
+}
+
+export interface PoolTaskResult {
+  task: string;
+  status: TaskStatus;
+  output?: TaskOutput;
+  error?: string;
+  timedOut: boolean;
+  /**
+   * Variables of the task once it ended, including the ones it extracted
+   */
+  variables: Record<string, HyperVariable>;
+  durationMs: number;
+}
+
+export interface PoolResult {
+  /**
+   * Results of the tasks, in the order they were given
+   */
+  results: PoolTaskResult[];
+  completed: number;
+  failed: number;
+  timedOut: number;
+  usage: TokenUsage;
+  durationMs: number;
+}
@@ -0,0 +1,94 @@
+import { HyperVariable } from "./types";
+
+/**
+ * Locator of the element an action was performed on, enough to find the element again without the DOM state
+ */
+export interface TraceElement {
+  index: number;
+  xpath: string;
+  cssPath: string;
+  isUnderShadowRoot: boolean;
+  frameSelectors?: string[];
+  /**
+   * Selector string resolved from the fields above, as used with `page.locator`
+   */
+  locator: string;
+  /**
+   * Description of the element given by the model, used to find the element again if the locator no longer matches
+   */
+  fallbackDescription?: string;
+}
+
+export interface TraceAction {
+  step: number;
+  substep: number;
+  type: string;
+  params: Record<string, unknown>;
+  /**
+   * Index of the tab the action ran on, in the order of the browser context's pages
+   */
+  tabIndex: number;
+  url: string;
+  element?: TraceElement;
+  /**
+   * Variables produced by the action, with the values recorded during the task
+   */
+  variableUpdates?: HyperVariable[];
+  success: boolean;
+  message: string;
+}
+
+export interface TaskTrace {
+  version: 1;
+  taskId: string;
+  task: string;
+  startUrl: string;
+  /**
+   * Variables available when the task started
+   */
+  variables: HyperVariable[];
+  actions: TraceAction[];
+  createdAt: string;
+}
+
+export interface ReplayParams {
+  /**
+   * Re-run actions that extracted variables instead of reusing the values recorded in the trace. Requires an LLM
+   */
+  rerunExtractions?: boolean;
+  /**
+   * Navigate to the start URL of the trace before replaying. Defaults to true
+   */
+  navigateToStart?: boolean;
+  /**
+   * Aborts the replay, stopping the LLM calls and the action in flight
+   */
+  signal?: AbortSignal;
+}
+
+export interface ReplayActionResult {
+  step: number;
+  substep: number;
+  type: string;
+  success: boolean;
+  message: string;
+  /**
+   * The recorded locator no longer matched and the element was found again with the LLM
+   */
+  healed: boolean;
+  healedLocator?: string;
+  /**
+   * Recorded variable values were reused instead of running the action
+   */
+  reusedRecording?: boolean;
+}
+
+export interface ReplayResult {
+  success: boolean;
+  actions: ReplayActionResult[];
+  /**
+   * Actions that needed self-healing, the trace should be re-recorded if this list keeps growing
+   */
+  healedActions: ReplayActionResult[];
+  variables: Record<string, HyperVariable>;
+}
@@ -1,7 +1,9 @@
 import { z } from "zod";
 import { ActionOutput } from "./actions/types";
 import { Locator, Page } from "playwright";
-import { ErrorEmitter } from "@/utils";
+import { HyperAgentEventEmitter } from "@/utils/event-emitter";
+import { TokenUsage, UsageReport } from "./usage";
+import { TaskTrace } from "./trace";
 
 export const ExtractedVariable = z.object({
   key: z
@@ -60,29 +62,190 @@ export interface AgentStep {
   idx: number;
   agentOutput: AgentOutput;
   actionOutputs: ActionOutput[];
+  usage?: TokenUsage;
+  /**
+   * Whether the step ran on the escalation model, after failed actions
+   */
+  escalated?: boolean;
+  /**
+   * Recoveries applied after the step, when the task was detected to be stuck
+   */
+  interventions?: StagnationIntervention[];
+}
+
+/**
+ * Ways to get a stuck task moving again:
+ * - warn: tell the model it is stuck in the next step
+ * - think: make the next step a thinkAction only, to reconsider the approach
+ * - reload: reload the current page
+ * - goBack: go back to the previous page
+ * - escalate: run the next step on the escalation model of `modelRouting`
+ * Every recovery also warns the model.
+ */
+export type RecoveryStrategy =
+  | "warn"
+  | "think"
+  | "reload"
+  | "goBack"
+  | "escalate";
+
+export interface StagnationConfig {
+  /**
+   * Number of times a step may repeat (same URL, page and actions) within the last 10 steps before the task is
+   * considered stuck in a loop. Defaults to 3
+   */
+  maxRepeats?: number;
+  /**
+   * Number of failed actions in a row before the task is considered stuck. Defaults to 3
+   */
+  maxFailures?: number;
+  /**
+   * Recoveries applied on successive detections, the last one is repeated until the task moves again.
+   * Defaults to warn, think, escalate, goBack
+   */
+  recoveries?: RecoveryStrategy[];
+}
+
+export interface StagnationIntervention {
+  /**
+   * What the task was stuck on
+   */
+  reason: "loop" | "failures";
+  /**
+   * How the task was stuck
+   */
+  description: string;
+  strategy: RecoveryStrategy;
+  /**
+   * Why the recovery could not be applied, the model is only warned then
+   */
+  error?: string;
+}
+
+export interface HistoryConfig {
+  /**
+   * How previous steps are passed to the model:
+   * - full: replay every previous step (default)
+   * - lastN: replay only the last `keepLastSteps` steps
+   * - summarize: replay the last `keepLastSteps` steps and fold older steps into a rolling memory written by the LLM
+   * With every strategy the history is compacted further if the prompt exceeds the token limit of the agent.
+   */
+  strategy?: "full" | "lastN" | "summarize";
+  /**
+   * Number of most recent steps replayed verbatim. Defaults to 5
+   */
+  keepLastSteps?: number;
+  /**
+   * Number of most recent screenshots kept in the prompt. Defaults to 1
+   */
+  keepScreenshots?: number;
+}
+
+export interface VerificationConfig {
+  /**
+   * Number of times a rejected completion sends the agent back to work. Once exhausted, the next completion is
+   * accepted with a failed verdict. Defaults to 2
+   */
+  maxRetries?: number;
+}
+
+export interface CompletionVerdict {
+  /**
+   * Whether the verifier accepted the last completion of the task
+   */
+  verified: boolean;
+  /**
+   * What the verifier found missing or wrong, empty when the completion was accepted
+   */
+  reasons: string[];
+  /**
+   * Number of completions rejected by the verifier
+   */
+  rejections: number;
+}
+
+export interface HistorySummary {
+  summary: string;
+  summarizedSteps: number;
 }
 
 export interface TaskParams {
   maxSteps?: number;
+  /**
+   * Stop the task once it has run for this long, it ends with the timed out status. In-flight LLM calls and actions
+   * are aborted.
+   */
+  timeoutMs?: number;
+  /**
+   * Deadline of the LLM call and actions of every step. A step over its deadline is aborted and reported as failed to
+   * the model, the task carries on.
+   */
+  stepTimeoutMs?: number;
   debugDir?: string;
   outputSchema?: z.AnyZodObject;
+  /**
+   * Cancel the task once the LLM calls of the task have used more tokens than this
+   */
+  maxTokens?: number;
+  /**
+   * Cancel the task once the LLM calls of the task cost more than this. Requires the models to be listed in the `pricing` config
+   */
+  maxCostUsd?: number;
+  history?: HistoryConfig;
+  /**
+   * Variables of the task, updated in place by the actions of the task. Defaults to the variables of the agent
+   */
+  variables?: Record<string, HyperVariable>;
+  /**
+   * URIs of MCP resources read when the task starts, their contents are given to the model as context of the task
+   */
+  mcpResources?: string[];
+  /**
+   * Break the task into a checklist of subgoals before the first step. The model keeps the plan up to date with the
+   * updatePlan action, the plan is reported on `TaskOutput.plan` and through `planUpdated` events.
+   */
+  planning?: boolean;
+  /**
+   * Check \`complete\` actions that claim success with a separate LLM call (the validator model), looking at the final
+   * page, the variables and the answer. Rejected completions are sent back to the agent with the reasons.
+   * The verdict is reported on \`TaskOutput.verification\`.
+   */
+  verification?: VerificationConfig;
+  /**
+   * Detect steps repeating in a loop or failing in a row, and apply recoveries.
+   * Interventions are recorded on \`AgentStep.interventions\`.
+   */
+  stagnation?: StagnationConfig;
   onStep?: (step: AgentStep) => Promise<void> | void;
   onComplete?: (output: TaskOutput) => Promise<void> | void;
   debugOnAgentOutput?: (step: AgentOutput) => void;
 }
 
+export interface PlanItem {
+  description: string;
+  done: boolean;
+}
+
 export interface TaskOutput {
   status?: TaskStatus;
   steps: AgentStep[];
   output?: string;
+  plan?: PlanItem[];
+  verification?: CompletionVerdict;
+  usage?: UsageReport;
+  /**
+   * Structured record of the actions of the task, can be re-executed with `HyperAgent.replay`
+   */
+  trace?: TaskTrace;
 }
 
 export interface Task {
+  id: string;
   getStatus: () => TaskStatus;
   pause: () => TaskStatus;
   resume: () => TaskStatus;
   cancel: () => TaskStatus;
-  emitter: ErrorEmitter;
+  emitter: HyperAgentEventEmitter;
 }
 
 export enum TaskStatus {
@@ -92,10 +255,12 @@ export enum TaskStatus {
   CANCELLED = "cancelled",
   COMPLETED = "completed",
   FAILED = "failed",
+  TIMED_OUT = "timed_out",
 }
 
 export const endTaskStatuses = new Set([
   TaskStatus.CANCELLED,
+  TaskStatus.TIMED_OUT,
   TaskStatus.COMPLETED,
   TaskStatus.FAILED,
 ]);
@@ -106,14 +271,27 @@ export interface TaskState {
   status: TaskStatus;
   startingPage: Page;
   steps: AgentStep[];
+  history?: HistorySummary;
+  trace?: TaskTrace;
+  plan?: PlanItem[];
+  verification?: CompletionVerdict;
   output?: string;
   error?: string;
+  /**
+   * Aborts the LLM calls and actions in flight when the task is cancelled or times out
+   */
+  abortController?: AbortController;
 }
 
 export interface HyperVariable {
   key: string;
   value: string;
   description: string;
+  /**
+   * Secret values are never shown to the LLM, written to debug files, scripts or traces.
+   * They are only substituted when typing text (inputText) or navigating (goToUrl).
+   */
+  secret?: boolean;
 }
 
 export interface HyperPage extends Page {
@@ -0,0 +1,37 @@
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /**
+   * Estimated share of the prompt tokens spent on images. Already included in promptTokens.
+   */
+  imageTokens: number;
+  totalTokens: number;
+  /**
+   * Cost in USD, only accounts for models that have an entry in the pricing table
+   */
+  costUsd: number;
+}
+
+export interface UsageReport extends TokenUsage {
+  byModel: Record<string, TokenUsage>;
+  byRole: Record<string, TokenUsage>;
+}
+
+export interface ModelPricing {
+  /**
+   * Price in USD per million prompt tokens
+   */
+  promptPer1MTokens: number;
+  /**
+   * Price in USD per million completion tokens
+   */
+  completionPer1MTokens: number;
+}
+
+export interface UsageRecord {
+  model: string;
+  role: string;
+  promptTokens: number;
+  completionTokens: number;
+  imageTokens?: number;
+}
@@ -1,11 +1,16 @@
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
-import { AgentActionDefinition } from "./agent/actions/types";
+import { ActionType, AgentActionDefinition } from "./agent/actions/types";
 
 import {
   HyperbrowserProvider,
   LocalBrowserProvider,
   CDPBrowserProvider,
 } from "@/browser-providers";
+import TaskStore from "./task-store/types";
+import { ModelPricing } from "./agent/usage";
+import { ModelCapabilities, ModelRoutingConfig } from "./agent/models";
+import { DomProvider } from "@/context-providers";
+import { PageSettleOptions } from "@/utils/page-settle";
 
 export interface MCPServerConfig {
   id?: string;
@@ -13,7 +18,7 @@ export interface MCPServerConfig {
   /**
    * The type of MCP server to use
    */
-  connectionType?: "stdio" | "sse";
+  connectionType?: "stdio" | "sse" | "http";
 
   /**
    * The executable to run to start the server.
@@ -38,6 +43,33 @@ export interface MCPServerConfig {
    */
   sseHeaders?: Record<string, string>;
 
+  /**
+   * URL of the streamable HTTP endpoint (required when connectionType is "http")
+   */
+  httpUrl?: string;
+  /**
+   * Headers for streamable HTTP connection
+   */
+  httpHeaders?: Record<string, string>;
+
+  /**
+   * How lost connections are retried, with an exponential backoff.
+   * Defaults to 5 retries, starting after 1 second and waiting at most 30 seconds between retries.
+   */
+  reconnect?: {
+    maxRetries?: number;
+    initialDelayMs?: number;
+    maxDelayMs?: number;
+  };
+  /**
+   * Interval of the health pings, which also refresh the tool list of the server. Defaults to 30 seconds, 0 disables them
+   */
+  healthCheckIntervalMs?: number;
+  /**
+   * Time to wait for a health ping before reconnecting. Defaults to 10 seconds
+   */
+  healthCheckTimeoutMs?: number;
+
   /**
    * List of tools to exclude from the MCP config
    */
@@ -48,6 +80,77 @@ export interface MCPServerConfig {
   includeTools?: string[];
 }
 
+export interface NavigationPolicyConfig {
+  /**
+   * Patterns of the URLs the agent may navigate to. When set, any other URL is blocked.
+   * Patterns without a "/" are matched against the hostname (e.g. "*.example.com"),
+   * others against the full URL (e.g. "https://example.com/docs/**").
+   */
+  allowedUrls?: string[];
+  /**
+   * Patterns of the URLs the agent may never navigate to, takes precedence over `allowedUrls`
+   */
+  blockedUrls?: string[];
+}
+
+export interface ApprovalRequest {
+  /**
+   * ID of the task running the action, or of the replayed task. Empty for actions run with `executeAction`
+   */
+  taskId: string;
+  step: number;
+  substep: number;
+  action: ActionType;
+  url: string;
+  /**
+   * Why the action needs approval, one entry per matched rule of the policy
+   */
+  reasons: string[];
+  /**
+   * Visible text of the element the action targets, if any
+   */
+  elementText?: string;
+  /**
+   * Name of the MCP tool the action calls, if any
+   */
+  mcpTool?: string;
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  /**
+   * Passed to the model when the action is rejected, e.g. what to do instead
+   */
+  reason?: string;
+}
+
+export interface ApprovalPolicyConfig {
+  /**
+   * Action types that always need approval (e.g. "inputText")
+   */
+  actionTypes?: string[];
+  /**
+   * Actions targeting an element whose text matches one of these patterns need approval.
+   * Strings are matched as case insensitive words. Defaults to purchase, submit and delete wording ("buy", "checkout", "submit"...).
+   */
+  elementTextPatterns?: Array<string | RegExp>;
+  /**
+   * MCP tools that need approval, by tool name or by action type (`<serverId>__<toolName>`). `true` for every MCP tool
+   */
+  mcpTools?: string[] | true;
+  /**
+   * Actions submitting a form need approval: clicking a submit button, or pressing Enter in a field of a form. Defaults to true
+   */
+  formSubmissions?: boolean;
+  /**
+   * Called with the pending action while the task is paused, the action runs once this resolves with an approval.
+   * Also called for replayed actions and actions run with `executeAction`, which wait without a task to pause
+   */
+  requestApproval: (
+    request: ApprovalRequest,
+  ) => Promise<ApprovalDecision> | ApprovalDecision;
+}
+
 export interface MCPConfig {
   /**
    * List of servers to connect to
@@ -68,6 +171,55 @@ export interface HyperAgentConfig<T extends BrowserProviders = "Local"> {
   llm?: BaseChatModel;
   tokenLimit?: number;
 
+  /**
+   * Context provider used to describe the page to the LLM.
+   * "dom" scans the page for interactive elements, "accessibility" uses the browser accessibility tree.
+   * Defaults to "dom".
+   */
+  domProvider?: DomProvider;
+
+  /**
+   * How long to wait for pages to settle after every action, see `waitForPageSettled`
+   */
+  pageSettle?: PageSettleOptions;
+
+  /**
+   * Restrict the URLs the agent can navigate to. Enforced on every top level navigation of the browser context,
+   * blocked navigations are reported to the model as failed actions.
+   */
+  navigationPolicy?: NavigationPolicyConfig;
+
+  /**
+   * Pause tasks for a human decision before running sensitive actions (purchases, form submissions, MCP tools that write data).
+   * Rejected actions are reported to the model as failed actions.
+   */
+  approvalPolicy?: ApprovalPolicyConfig;
+
+  /**
+   * Price table used to compute the cost of LLM calls, keyed by model name (e.g. "gpt-4o").
+   * Keys also match model versions they are a prefix of.
+   */
+  pricing?: Record<string, ModelPricing>;
+
+  /**
+   * Capabilities of the model (tool calling, JSON mode, vision, context size), keyed by model name or LangChain class
+   * name (e.g. "ChatOllama"). Takes precedence over the built-in registry, keys also match model versions they are a prefix of.
+   * Models without tool calling get structured outputs by parsing their JSON answers, models without vision get prompts without screenshots.
+   */
+  modelCapabilities?: Record<string, Partial<ModelCapabilities>>;
+
+  /**
+   * Use different models per role (e.g. a cheap model to find elements and extract data), and escalate steps to a
+   * stronger model after failed actions. Roles without a model use `llm`.
+   */
+  modelRouting?: ModelRoutingConfig;
+
+  /**
+   * Store used to checkpoint task progress after every step, so tasks can be resumed with `resumeTask`.
+   * Defaults to a FileSystemTaskStore writing to `.hyperagent/tasks`. Set to false to disable checkpointing.
+   */
+  taskStore?: TaskStore | false;
+
   hyperbrowserConfig?: Omit<
     NonNullable<ConstructorParameters<typeof HyperbrowserProvider>[0]>,
     "debug"
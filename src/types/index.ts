@@ -20,14 +20,87 @@ import {
   TaskState,
   endTaskStatuses,
   HyperVariable,
+  HistoryConfig,
+  HistorySummary,
+  PlanItem,
+  VerificationConfig,
+  CompletionVerdict,
+  RecoveryStrategy,
+  StagnationConfig,
+  StagnationIntervention,
 } from "./agent/types";
 
+// Usage Types
+import { TokenUsage, UsageReport, ModelPricing } from "./agent/usage";
+
+// Model Types
+import {
+  ModelCapabilities,
+  ModelRole,
+  ModelRoutingConfig,
+  ModelEscalationConfig,
+} from "./agent/models";
+
+// Trace Types
+import {
+  TaskTrace,
+  TraceAction,
+  TraceElement,
+  ReplayParams,
+  ReplayResult,
+  ReplayActionResult,
+} from "./agent/trace";
+
+// Agent Pool Types
+import {
+  AgentPoolOptions,
+  PoolTask,
+  PoolTaskResult,
+  PoolResult,
+} from "./agent/pool";
+
+// Agent Event Types
+import {
+  HyperAgentEvents,
+  StatusChangedEvent,
+  StepStartedEvent,
+  StepFinishedEvent,
+  LLMRequestEvent,
+  LLMResponseEvent,
+  ActionStartedEvent,
+  ActionFinishedEvent,
+  VariableUpdatedEvent,
+  NavigationEvent,
+  PolicyViolationEvent,
+  ApprovalResolvedEvent,
+  PlanUpdatedEvent,
+  CompletedEvent,
+} from "./agent/events";
+
 // Config Types
-import { MCPServerConfig, MCPConfig, HyperAgentConfig, BrowserProviders } from "./config";
+import {
+  MCPServerConfig,
+  MCPConfig,
+  HyperAgentConfig,
+  BrowserProviders,
+  NavigationPolicyConfig,
+  ApprovalPolicyConfig,
+  ApprovalRequest,
+  ApprovalDecision,
+} from "./config";
 
 // Browser Provider Types
 import BrowserProvider from "./browser-providers/types";
+
+// Task Store Types
+import TaskStore, {
+  TaskSnapshot,
+  TaskSnapshotParams,
+  StorageState,
+} from "./task-store/types";
 import { CDPBrowserConfig } from "../browser-providers/cdp";
+import { DomProvider } from "../context-providers";
+import { PageSettleOptions } from "../utils/page-settle";
 
 // Export all types
 export {
@@ -47,18 +120,79 @@ export {
   Task,
   TaskStatus,
   TaskState,
+  HistoryConfig,
+  HistorySummary,
+  PlanItem,
+  VerificationConfig,
+  CompletionVerdict,
+  RecoveryStrategy,
+  StagnationConfig,
+  StagnationIntervention,
+
+  // Usage Types
+  TokenUsage,
+  UsageReport,
+  ModelPricing,
+
+  // Model Types
+  ModelCapabilities,
+  ModelRole,
+  ModelRoutingConfig,
+  ModelEscalationConfig,
+
+  // Trace Types
+  TaskTrace,
+  TraceAction,
+  TraceElement,
+  ReplayParams,
+  ReplayResult,
+  ReplayActionResult,
+
+  // Agent Pool Types
+  AgentPoolOptions,
+  PoolTask,
+  PoolTaskResult,
+  PoolResult,
+
+  // Agent Event Types
+  HyperAgentEvents,
+  StatusChangedEvent,
+  StepStartedEvent,
+  StepFinishedEvent,
+  LLMRequestEvent,
+  LLMResponseEvent,
+  ActionStartedEvent,
+  ActionFinishedEvent,
+  VariableUpdatedEvent,
+  NavigationEvent,
+  PolicyViolationEvent,
+  ApprovalResolvedEvent,
+  PlanUpdatedEvent,
+  CompletedEvent,
 
   // Config Types
   MCPServerConfig,
   MCPConfig,
   HyperAgentConfig,
   BrowserProviders,
+  NavigationPolicyConfig,
+  ApprovalPolicyConfig,
+  ApprovalRequest,
+  ApprovalDecision,
+  DomProvider,
+  PageSettleOptions,
 
   // Browser Provider Types
   BrowserProvider,
   CDPBrowserConfig,
   endTaskStatuses,
 
+  // Task Store Types
+  TaskStore,
+  TaskSnapshot,
+  TaskSnapshotParams,
+  StorageState,
+
   // Helper Types
   VariableExtractionOutput,
   HyperVariable,
@@ -0,0 +1,59 @@
+import { BrowserContext } from "playwright";
+import {
+  AgentStep,
+  CompletionVerdict,
+  HistorySummary,
+  HyperVariable,
+  PlanItem,
+  TaskParams,
+  TaskStatus,
+} from "../agent/types";
+import { TaskTrace } from "../agent/trace";
+
+export type StorageState = Awaited<ReturnType<BrowserContext["storageState"]>>;
+
+/**
+ * Params of a task persisted in its snapshot. Callbacks and the output schema cannot be serialized,
+ * and variables are persisted separately.
+ */
+export type TaskSnapshotParams = Pick<
+  TaskParams,
+  | "maxSteps"
+  | "timeoutMs"
+  | "stepTimeoutMs"
+  | "debugDir"
+  | "maxTokens"
+  | "maxCostUsd"
+  | "history"
+  | "mcpResources"
+  | "planning"
+  | "verification"
+  | "stagnation"
+>;
+
+export interface TaskSnapshot {
+  id: string;
+  task: string;
+  status: TaskStatus;
+  steps: AgentStep[];
+  history?: HistorySummary;
+  trace?: TaskTrace;
+  plan?: PlanItem[];
+  verification?: CompletionVerdict;
+  variables: Record<string, HyperVariable>;
+  url: string;
+  storageState?: StorageState;
+  params?: TaskSnapshotParams;
+  output?: string;
+  error?: string;
+  updatedAt: string;
+}
+
+abstract class TaskStore {
+  abstract save(snapshot: TaskSnapshot): Promise<void>;
+  abstract load(taskId: string): Promise<TaskSnapshot | null>;
+  abstract delete(taskId: string): Promise<void>;
+  abstract list(): Promise<string[]>;
+}
+
+export default TaskStore;
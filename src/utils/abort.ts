@@ -0,0 +1,116 @@
+/**
+ * Reject as soon as the signal aborts, with the reason of the abort.
+ * The operation itself keeps running, this only stops waiting for it (e.g. for Playwright calls, which take no signal).
+ */
+export const raceAbort = <T>(
+  promise: T | Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> => {
+  if (!signal) {
+    return Promise.resolve(promise);
+  }
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    Promise.resolve(promise)
+      .then(resolve, reject)
+      .finally(() => {
+        signal.removeEventListener("abort", onAbort);
+      });
+  });
+};
+
+export interface Deadline {
+  signal: AbortSignal;
+  /**
+   * Time left before the timeout elapses in milliseconds, undefined without a timeout
+   */
+  remaining: () => number | undefined;
+  /**
+   * Stop the clock, e.g. while waiting on a user
+   */
+  pause: () => void;
+  /**
+   * Restart the clock with the time that was left when it was paused
+   */
+  resume: () => void;
+  /**
+   * Release the timer and listener once the signal is no longer needed
+   */
+  dispose: () => void;
+}
+
+/**
+ * Create a signal aborted with its parent, or once the timeout elapses
+ * @param parent The signal to follow
+ * @param timeoutMs Time after which the signal aborts, never by default
+ * @param timeoutReason Reason of the abort when the timeout elapses
+ */
+export const createDeadline = (
+  parent: AbortSignal,
+  timeoutMs?: number,
+  timeoutReason?: unknown,
+): Deadline => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(parent.reason);
+  if (parent.aborted) {
+    onAbort();
+  } else {
+    parent.addEventListener("abort", onAbort, { once: true });
+  }
+  let expiresAt = 0;
+  let pausedRemaining: number | undefined;
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  const arm = (ms: number) => {
+    expiresAt = Date.now() + ms;
+    // The timer must not keep the process alive if the signal is never disposed
+    timeout = setTimeout(() => controller.abort(timeoutReason), ms).unref();
+  };
+  if (timeoutMs) {
+    arm(timeoutMs);
+  }
+  return {
+    signal: controller.signal,
+    remaining: () => {
+      if (!timeoutMs) {
+        return undefined;
+      }
+      return pausedRemaining ?? Math.max(0, expiresAt - Date.now());
+    },
+    pause: () => {
+      if (timeout === undefined) {
+        return;
+      }
+      clearTimeout(timeout);
+      timeout = undefined;
+      pausedRemaining = Math.max(0, expiresAt - Date.now());
+    },
+    resume: () => {
+      if (pausedRemaining === undefined) {
+        return;
+      }
+      const remaining = pausedRemaining;
+      pausedRemaining = undefined;
+      if (!controller.signal.aborted) {
+        arm(remaining);
+      }
+    },
+    dispose: () => {
+      clearTimeout(timeout);
+      timeout = undefined;
+      pausedRemaining = undefined;
+      parent.removeEventListener("abort", onAbort);
+    },
+  };
+};
+
+/**
+ * Describe the reason of an abort
+ */
+export const getAbortMessage = (signal: AbortSignal): string =>
+  signal.reason instanceof Error
+    ? signal.reason.message
+    : String(signal.reason ?? "aborted");
@@ -27,6 +27,19 @@ export function initActionScript(
       `;
       delete configCopy.llm;
     }
+    // Models, callbacks and store instances cannot be stringified either
+    const omittedFields = (
+      ["modelRouting", "approvalPolicy", "taskStore"] as const
+    ).filter((field) => configCopy[field]);
+    for (const field of omittedFields) {
+      delete configCopy[field];
+    }
+    if (omittedFields.length > 0) {
+      llmComment += `
+      // The agent's ${omittedFields.join(", ")} configuration has been omitted as it cannot be stringified.
+      // Recreate it by hand and add it to the config below if the script needs it.
+      `;
+    }
     agentConfigString = JSON.stringify(configCopy, null, 2);
   } else {
     agentConfigString = "";
@@ -43,7 +56,7 @@ export function initActionScript(
 
     import { HyperAgent } from "@hyperbrowser/agent";
     import { waitForElementToBeEnabled, waitForElementToBeStable } from "@hyperbrowser/agent/actions";
-    import { parseMarkdown, sleep } from "@hyperbrowser/agent/utils";
+    import { parseMarkdown, sleep, truncateToTokenLimit, waitForPageSettled } from "@hyperbrowser/agent/utils";
     import { VariableExtractionOutput, HyperVariable } from "@hyperbrowser/agent/types";
 
 
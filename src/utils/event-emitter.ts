@@ -0,0 +1,71 @@
+import EventEmitter from "events";
+import { HyperAgentEvents } from "@/types/agent/events";
+
+/**
+ * Typed emitter for the lifecycle events of HyperAgent tasks.
+ * A task level emitter forwards every event to its parent, so listeners registered on the agent see the events of all tasks.
+ */
+export class HyperAgentEventEmitter extends EventEmitter {
+  constructor(private parent?: HyperAgentEventEmitter) {
+    super();
+  }
+
+  override on<K extends keyof HyperAgentEvents>(
+    event: K,
+    listener: HyperAgentEvents[K],
+  ): this {
+    return super.on(event, listener);
+  }
+
+  override once<K extends keyof HyperAgentEvents>(
+    event: K,
+    listener: HyperAgentEvents[K],
+  ): this {
+    return super.once(event, listener);
+  }
+
+  override off<K extends keyof HyperAgentEvents>(
+    event: K,
+    listener: HyperAgentEvents[K],
+  ): this {
+    return super.off(event, listener);
+  }
+
+  override emit<K extends keyof HyperAgentEvents>(
+    event: K,
+    ...args: Parameters<HyperAgentEvents[K]>
+  ): boolean {
+    let handledByParent = false;
+    // "error" events throw when nobody listens, so only forward them if the parent can handle them
+    if (
+      this.parent &&
+      (event !== "error" || this.parent.listenerCount("error") > 0)
+    ) {
+      handledByParent = this.parent.emit(event, ...args);
+    }
+    if (
+      event === "error" &&
+      handledByParent &&
+      this.listenerCount(event) === 0
+    ) {
+      return true;
+    }
+    return super.emit(event, ...args) || handledByParent;
+  }
+
+  override addListener<K extends keyof HyperAgentEvents>(
+    eventName: K,
+    listener: (...args: Parameters<HyperAgentEvents[K]>) => void,
+  ): this {
+    return super.addListener(eventName, listener);
+  }
+}
+
+/**
+ * @deprecated Use `HyperAgentEventEmitter`, which emits the same `error` events along with the lifecycle events of tasks
+ */
+export const ErrorEmitter = HyperAgentEventEmitter;
+/**
+ * @deprecated Use `HyperAgentEventEmitter`
+ */
+export type ErrorEmitter = HyperAgentEventEmitter;
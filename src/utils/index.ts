@@ -1,6 +1,26 @@
-import { ErrorEmitter } from "./error-emitter";
+import { ErrorEmitter, HyperAgentEventEmitter } from "./event-emitter";
 import { parseMarkdown } from "./html-to-markdown";
+import { waitForPageSettled } from "./page-settle";
+import { redactSecrets, resolveVariables } from "./secrets";
+import { jsonSchemaToZod, jsonSchemaToZodObject } from "./json-schema-to-zod";
 import { retry } from "./retry";
 import { sleep } from "./sleep";
+import { raceAbort, createDeadline } from "./abort";
+import { countTokens, truncateToTokenLimit } from "./tokenizer";
 
-export { sleep, retry, ErrorEmitter, parseMarkdown };
+export {
+  sleep,
+  retry,
+  raceAbort,
+  createDeadline,
+  HyperAgentEventEmitter,
+  ErrorEmitter,
+  parseMarkdown,
+  countTokens,
+  truncateToTokenLimit,
+  waitForPageSettled,
+  redactSecrets,
+  resolveVariables,
+  jsonSchemaToZod,
+  jsonSchemaToZodObject,
+};
@@ -0,0 +1,123 @@
+import { z } from "zod";
+
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  additionalProperties?: boolean | JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  [key: string]: unknown;
+}
+
+const toUnion = (schemas: z.ZodTypeAny[]): z.ZodTypeAny => {
+  if (schemas.length === 0) {
+    return z.any();
+  }
+  if (schemas.length === 1) {
+    return schemas[0];
+  }
+  return z.union(
+    schemas as unknown as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]],
+  );
+};
+
+const literalsToZod = (values: unknown[]): z.ZodTypeAny => {
+  if (values.length > 0 && values.every((value) => typeof value === "string")) {
+    return z.enum(values as [string, ...string[]]);
+  }
+  return toUnion(values.map((value) => z.literal(value as z.Primitive)));
+};
+
+const typeToZod = (type: string, schema: JsonSchema): z.ZodTypeAny => {
+  switch (type) {
+    case "string":
+      return z.string();
+    case "number":
+      return z.number();
+    case "integer":
+      return z.number().int();
+    case "boolean":
+      return z.boolean();
+    case "null":
+      return z.null();
+    case "array":
+      return z.array(schema.items ? jsonSchemaToZod(schema.items) : z.any());
+    case "object":
+      return objectToZod(schema);
+    default:
+      return z.any();
+  }
+};
+
+const objectToZod = (schema: JsonSchema): z.AnyZodObject => {
+  const required = new Set(schema.required ?? []);
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const [key, property] of Object.entries(schema.properties ?? {})) {
+    const propertySchema = jsonSchemaToZod(property);
+    shape[key] = required.has(key) ? propertySchema : propertySchema.optional();
+  }
+  const object = z.object(shape);
+  // zod strips unknown keys by default, which would empty maps and free-form objects
+  const { additionalProperties } = schema;
+  if (typeof additionalProperties === "object") {
+    return object.catchall(jsonSchemaToZod(additionalProperties));
+  }
+  if (
+    additionalProperties === true ||
+    (additionalProperties === undefined &&
+      Object.keys(schema.properties ?? {}).length === 0)
+  ) {
+    return object.passthrough();
+  }
+  return object;
+};
+
+/**
+ * Convert a JSON schema to a zod schema. Covers the subset of JSON schema used to describe structured outputs and
+ * tool inputs (objects, arrays, primitives, enums and unions), anything else is accepted as is.
+ * @param schema The JSON schema to convert
+ * @returns The equivalent zod schema, with the descriptions of the JSON schema
+ */
+export const jsonSchemaToZod = (schema: JsonSchema): z.ZodTypeAny => {
+  let zodSchema: z.ZodTypeAny;
+  if (schema.const !== undefined) {
+    zodSchema = z.literal(schema.const as z.Primitive);
+  } else if (schema.enum) {
+    zodSchema = literalsToZod(schema.enum);
+  } else if (schema.anyOf || schema.oneOf) {
+    zodSchema = toUnion((schema.anyOf ?? schema.oneOf)!.map(jsonSchemaToZod));
+  } else if (Array.isArray(schema.type)) {
+    zodSchema = toUnion(schema.type.map((type) => typeToZod(type, schema)));
+  } else if (schema.type) {
+    zodSchema = typeToZod(schema.type, schema);
+  } else if (schema.properties) {
+    zodSchema = objectToZod(schema);
+  } else {
+    zodSchema = z.any();
+  }
+  return schema.description
+    ? zodSchema.describe(schema.description)
+    : zodSchema;
+};
+
+/**
+ * Convert the JSON schema of an object to a zod object schema
+ * @throws If the schema does not describe an object
+ */
+export const jsonSchemaToZodObject = (schema: JsonSchema): z.AnyZodObject => {
+  if (
+    (schema.type !== undefined && schema.type !== "object") ||
+    (schema.type === undefined && !schema.properties)
+  ) {
+    throw new Error("The JSON schema must describe an object");
+  }
+  const zodSchema = objectToZod(schema);
+  return schema.description
+    ? zodSchema.describe(schema.description)
+    : zodSchema;
+};
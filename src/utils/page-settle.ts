@@ -0,0 +1,127 @@
+import { Page, Request } from "playwright";
+import { sleep } from "./sleep";
+
+export interface PageSettleOptions {
+  /**
+   * Maximum time to wait for the page to settle, in milliseconds. Defaults to 10000.
+   */
+  maxWaitMs?: number;
+  /**
+   * Time without in-flight requests before the network is considered idle, in milliseconds. Defaults to 500.
+   */
+  networkIdleMs?: number;
+  /**
+   * Time without DOM mutations before the DOM is considered stable, in milliseconds. Defaults to 300.
+   */
+  domQuietMs?: number;
+  /**
+   * Maximum time to wait for the DOM to stop changing once the network is idle, in milliseconds. Defaults to 2000.
+   * Pages that never stop changing (animations, tickers, clocks) are considered settled after it.
+   */
+  domMaxWaitMs?: number;
+}
+
+// Long lived requests that never finish and would keep the network busy forever
+const IGNORED_RESOURCE_TYPES = new Set(["websocket", "eventsource", "media"]);
+
+/**
+ * Resolves once no mutation happened in the page for `quietMs`, or with false after `timeoutMs`.
+ * Runs in the page, so it must not reference anything outside of its body.
+ */
+const waitForDomQuiet = ({
+  quietMs,
+  timeoutMs,
+}: {
+  quietMs: number;
+  timeoutMs: number;
+}) =>
+  new Promise<boolean>((resolve) => {
+    let quietTimer: ReturnType<typeof setTimeout> | undefined = undefined;
+    let timeoutTimer: ReturnType<typeof setTimeout> | undefined = undefined;
+    const done = (quiet: boolean) => {
+      observer.disconnect();
+      clearTimeout(quietTimer);
+      clearTimeout(timeoutTimer);
+      resolve(quiet);
+    };
+    const observer = new MutationObserver(() => {
+      clearTimeout(quietTimer);
+      quietTimer = setTimeout(() => done(true), quietMs);
+    });
+    observer.observe(document, {
+      subtree: true,
+      childList: true,
+      attributes: true,
+      characterData: true,
+    });
+    quietTimer = setTimeout(() => done(true), quietMs);
+    timeoutTimer = setTimeout(() => done(false), timeoutMs);
+  });
+
+/**
+ * Wait for a page to settle after an interaction: the load event has fired, no requests are in flight
+ * and the DOM stopped changing, or kept changing for `domMaxWaitMs`. Never throws, the wait simply ends after `maxWaitMs`.
+ * @param page The page to wait on
+ * @param options Thresholds of the settle detection
+ * @returns Whether the page settled before the max wait
+ */
+export const waitForPageSettled = async (
+  page: Page,
+  options: PageSettleOptions = {},
+): Promise<boolean> => {
+  const maxWaitMs = options.maxWaitMs ?? 10000;
+  const networkIdleMs = options.networkIdleMs ?? 500;
+  const domQuietMs = options.domQuietMs ?? 300;
+  const domMaxWaitMs = options.domMaxWaitMs ?? 2000;
+  const deadline = Date.now() + maxWaitMs;
+  const remaining = () => Math.max(0, deadline - Date.now());
+
+  const inFlight = new Set<Request>();
+  let lastNetworkActivity = Date.now();
+  const onRequest = (request: Request) => {
+    if (IGNORED_RESOURCE_TYPES.has(request.resourceType())) {
+      return;
+    }
+    inFlight.add(request);
+    lastNetworkActivity = Date.now();
+  };
+  const onRequestDone = (request: Request) => {
+    if (inFlight.delete(request)) {
+      lastNetworkActivity = Date.now();
+    }
+  };
+  const isNetworkIdle = () =>
+    inFlight.size === 0 && Date.now() - lastNetworkActivity >= networkIdleMs;
+
+  page.on("request", onRequest);
+  page.on("requestfinished", onRequestDone);
+  page.on("requestfailed", onRequestDone);
+  try {
+    await page
+      .waitForLoadState("load", { timeout: remaining() })
+      .catch(() => undefined);
+
+    while (remaining() > 0 && !page.isClosed()) {
+      if (!isNetworkIdle()) {
+        await sleep(Math.min(100, remaining()));
+        continue;
+      }
+      const domQuiet = await page
+        .evaluate(waitForDomQuiet, {
+          quietMs: domQuietMs,
+          timeoutMs: Math.min(domMaxWaitMs, remaining()),
+        })
+        // The page navigated while we were observing it, start over
+        .catch(() => null);
+      // A DOM still changing after the wait is settled as long as the network stayed idle
+      if (domQuiet !== null && isNetworkIdle()) {
+        return true;
+      }
+    }
+    return false;
+  } finally {
+    page.off("request", onRequest);
+    page.off("requestfinished", onRequestDone);
+    page.off("requestfailed", onRequestDone);
+  }
+};
@@ -3,10 +3,13 @@ export async function retry<T>({
   func,
   params,
   onError,
+  signal,
 }: {
   func: () => Promise<T>;
   params?: { retryCount: number };
   onError?: (...err: Array<unknown>) => void;
+  // Aborted calls are not retried
+  signal?: AbortSignal;
 }) {
   let err = null;
   const retryCount = params?.retryCount || 3;
@@ -17,6 +20,9 @@ export async function retry<T>({
     } catch (error) {
       onError?.(`Retry Attempt: ${i}`, error);
       err = error;
+      if (signal?.aborted) {
+        break;
+      }
       await sleep(Math.pow(2, i) * 1000);
       continue;
     }
@@ -0,0 +1,65 @@
+import { HyperVariable } from "@/types/agent/types";
+
+type Variables = Record<string, HyperVariable> | HyperVariable[];
+
+const getSecrets = (variables: Variables): HyperVariable[] =>
+  (Array.isArray(variables) ? variables : Object.values(variables))
+    .filter((variable) => variable.secret && variable.value)
+    // Longest first, so a secret containing another one is redacted as a whole
+    .sort((a, b) => b.value.length - a.value.length);
+
+/**
+ * Replace the `<<key>>` references in a text with the values of the variables.
+ * Secret variables are left as references unless `includeSecrets` is set, only actions typing into the page should set it.
+ * @param text Text containing variable references
+ * @param variables Variables to substitute
+ * @param options.includeSecrets Whether secret values may be substituted
+ * @returns The text with the references replaced
+ */
+export const resolveVariables = (
+  text: string,
+  variables: Variables,
+  { includeSecrets = false }: { includeSecrets?: boolean } = {},
+): string => {
+  for (const variable of Array.isArray(variables)
+    ? variables
+    : Object.values(variables)) {
+    if (variable.secret && !includeSecrets) {
+      continue;
+    }
+    text = text.replaceAll(`<<${variable.key}>>`, variable.value);
+  }
+  return text;
+};
+
+/**
+ * Replace the values of secret variables with their `<<key>>` reference, in strings nested anywhere inside a value
+ * @param value A string, or an array / object containing strings
+ * @param variables Variables, only the secret ones are redacted
+ * @returns A redacted copy of the value
+ */
+export const redactSecrets = <T>(value: T, variables: Variables): T => {
+  const secrets = getSecrets(variables);
+  if (secrets.length === 0) {
+    return value;
+  }
+  const redact = (current: unknown): unknown => {
+    if (typeof current === "string") {
+      let redacted = current;
+      for (const secret of secrets) {
+        redacted = redacted.replaceAll(secret.value, `<<${secret.key}>>`);
+      }
+      return redacted;
+    }
+    if (Array.isArray(current)) {
+      return current.map(redact);
+    }
+    if (current && typeof current === "object") {
+      return Object.fromEntries(
+        Object.entries(current).map(([key, nested]) => [key, redact(nested)]),
+      );
+    }
+    return current;
+  };
+  return redact(value) as T;
+};
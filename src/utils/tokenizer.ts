@@ -0,0 +1,42 @@
+import { getEncoding, Tiktoken } from "js-tiktoken";
+
+let encoding: Tiktoken | null = null;
+
+// Loading the ranks is expensive, only do it once it is needed
+const getTokenizer = (): Tiktoken => {
+  if (!encoding) {
+    encoding = getEncoding("o200k_base");
+  }
+  return encoding;
+};
+
+/**
+ * Count the tokens of a text. Uses the o200k_base encoding of the current OpenAI models,
+ * which is a close approximation for other providers.
+ * @param text The text to count the tokens of
+ */
+export const countTokens = (text: string): number => {
+  if (!text) {
+    return 0;
+  }
+  return getTokenizer().encode(text, [], []).length;
+};
+
+/**
+ * Truncate a text so that it fits in a token limit
+ * @param text The text to truncate
+ * @param tokenLimit Maximum number of tokens of the returned text
+ * @param suffix Text appended when the text had to be truncated
+ */
+export const truncateToTokenLimit = (
+  text: string,
+  tokenLimit: number,
+  suffix: string = "\n[Content truncated due to length]",
+): string => {
+  const tokenizer = getTokenizer();
+  const tokens = tokenizer.encode(text, [], []);
+  if (tokens.length <= tokenLimit) {
+    return text;
+  }
+  return tokenizer.decode(tokens.slice(0, tokenLimit)) + suffix;
+};